@@ -41,6 +41,7 @@ const events = defineCollection({
     city: z.string(),
     venue: z.string(),
     date: z.date(),
+    endDate: z.date().optional(), // multi-day events; otherwise estimated from the category
     category: z.enum(['concert', 'festival', 'theater', 'sport', 'exhibition', 'other']),
     priceFrom: z.number().optional(),
     ticketUrl: z.string().optional(),
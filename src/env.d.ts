@@ -1 +1,15 @@
-/// <reference path="../.astro/types.d.ts" />
\ No newline at end of file
+/// <reference path="../.astro/types.d.ts" />
+
+type ENV = {
+  CACHE_BACKEND?: 'memory' | 'kv';
+  CACHE_KV?: import('./lib/cache').KVNamespaceLike;
+  CACHE_MAX_ENTRIES?: string;
+  MOCK_PROVIDERS?: string;
+  ASSISTANT_PARSER?: string;
+};
+
+type Runtime = import('@astrojs/cloudflare').DirectoryRuntime<ENV>;
+
+declare namespace App {
+  interface Locals extends Partial<Runtime> {}
+}
@@ -0,0 +1,56 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { withAirportAccess } from './airport-access';
+import { searchFlights, transformFlightOffer } from './amadeus-flights';
+import { configureProviders } from './mock-providers';
+import { toZonedIso } from './time';
+
+const inDays = (days: number) => toZonedIso(Date.now() + days * 24 * 60 * 60 * 1000).slice(0, 10);
+const minutesBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / 60000);
+
+async function roundTrip() {
+  const response = await searchFlights({
+    origin: 'BER', destination: 'MUC', departureDate: inDays(7), returnDate: inDays(10), maxResults: 1,
+  });
+  return transformFlightOffer(response.data[0], response.dictionaries?.carriers);
+}
+
+beforeAll(() => {
+  configureProviders({ mock: true });
+});
+
+afterAll(() => {
+  configureProviders({ mock: false });
+});
+
+describe('withAirportAccess', () => {
+  it('spans from the access leg departure to the egress leg arrival', async () => {
+    const flight = await withAirportAccess(await roundTrip());
+
+    expect(flight.access?.estimated).toBe(false);
+    expect(flight.egress?.estimated).toBe(false);
+    expect(flight.doorToDoorDeparture).toBe(flight.access!.departure);
+    expect(flight.doorToDoorArrival).toBe(flight.egress!.arrival);
+    expect(flight.doorToDoorMinutes).toBe(minutesBetween(flight.access!.departure!, flight.egress!.arrival!));
+  });
+
+  it('adds access and egress legs to the inbound itinerary', async () => {
+    const flight = await withAirportAccess(await roundTrip());
+    const inbound = flight.inboundDoorToDoor!;
+
+    expect(inbound.access).toMatchObject({ direction: 'access', from: 'München Hbf' });
+    expect(inbound.egress).toMatchObject({ direction: 'egress', to: 'Berlin Hbf' });
+    expect(Date.parse(inbound.access!.arrival!)).toBeLessThanOrEqual(Date.parse(flight.inbound!.departure.time));
+    expect(inbound.minutes).toBe(minutesBetween(inbound.departure, inbound.arrival));
+  });
+
+  it('counts buffers and estimated legs for airports without access config', async () => {
+    const trip = await roundTrip();
+    const flight = await withAirportAccess({
+      ...trip,
+      outbound: { ...trip.outbound, departure: { time: '2030-06-01T10:00:00+02:00', airport: 'XXX' } },
+    });
+
+    expect(flight.access).toBeNull();
+    expect(flight.doorToDoorDeparture).toBe('2030-06-01T08:30:00+02:00');
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Airport Access Legs
+ * Enriches flights with the rail/S-Bahn legs between city centre and airport
+ * plus configurable check-in and arrival buffers, so flights can be compared
+ * door-to-door with trains instead of by air time only.
+ */
+
+import {
+  findJourneys,
+  getJourneyDuration,
+  type Journey,
+} from './db-transport';
+import type { FlightItinerary, FlightResult } from './amadeus-flights';
+import { getAirportRailStation, getAirportTimeZone, resolvePlace } from './locations';
+import { addMinutes } from './time';
+
+// ============ Types ============
+
+export interface AirportAccess {
+  cityStation: string;     // DB station of the city centre
+  airportStation: string;  // DB station at the airport, from the airport table
+  checkInMinutes: number;  // check-in and security before departure
+  arrivalMinutes: number;  // deplaning and baggage claim after landing
+  transferMinutes: number; // typical rail time, used when no journey is found
+}
+
+export interface AccessLeg {
+  direction: 'access' | 'egress';
+  from: string;
+  to: string;
+  departure: string | null;
+  arrival: string | null;
+  durationMinutes: number;
+  lines: string[];
+  estimated: boolean; // true if based on transferMinutes instead of a live journey
+}
+
+export interface DoorToDoorItinerary {
+  departure: string; // leaving the city station, or the airport minus buffers if it has no access config
+  arrival: string;   // reaching the city station, or the airport plus buffers
+  minutes: number;
+  access: AccessLeg | null;
+  egress: AccessLeg | null;
+  buffers: {
+    checkInMinutes: number;
+    arrivalMinutes: number;
+  };
+}
+
+// Top-level door-to-door fields describe the outbound itinerary, like FlightResult
+export interface DoorToDoorFlight extends FlightResult {
+  doorToDoorMinutes: number;
+  doorToDoorDeparture: string;
+  doorToDoorArrival: string;
+  access: AccessLeg | null;
+  egress: AccessLeg | null;
+  buffers: DoorToDoorItinerary['buffers'];
+  inboundDoorToDoor: DoorToDoorItinerary | null; // only for round trips
+}
+
+// ============ Config ============
+
+// Buffers for airports without access config (e.g. international destinations)
+const DEFAULT_CHECK_IN_MINUTES = 90;
+const DEFAULT_ARRIVAL_MINUTES = 30;
+
+// The airport station comes from the airport table, which also routes airport input
+export const AIRPORT_ACCESS: Record<string, Omit<AirportAccess, 'airportStation'>> = {
+  BER: { cityStation: 'Berlin Hbf', checkInMinutes: 75, arrivalMinutes: 20, transferMinutes: 30 },
+  FRA: { cityStation: 'Frankfurt(Main)Hbf', checkInMinutes: 90, arrivalMinutes: 25, transferMinutes: 15 },
+  MUC: { cityStation: 'München Hbf', checkInMinutes: 90, arrivalMinutes: 25, transferMinutes: 40 },
+  HAM: { cityStation: 'Hamburg Hbf', checkInMinutes: 60, arrivalMinutes: 20, transferMinutes: 25 },
+  DUS: { cityStation: 'Düsseldorf Hbf', checkInMinutes: 75, arrivalMinutes: 20, transferMinutes: 15 },
+  CGN: { cityStation: 'Köln Hbf', checkInMinutes: 60, arrivalMinutes: 20, transferMinutes: 15 },
+  STR: { cityStation: 'Stuttgart Hbf', checkInMinutes: 60, arrivalMinutes: 20, transferMinutes: 30 },
+  HAJ: { cityStation: 'Hannover Hbf', checkInMinutes: 60, arrivalMinutes: 15, transferMinutes: 20 },
+  NUE: { cityStation: 'Nürnberg Hbf', checkInMinutes: 60, arrivalMinutes: 15, transferMinutes: 15 },
+  LEJ: { cityStation: 'Leipzig Hbf', checkInMinutes: 60, arrivalMinutes: 15, transferMinutes: 15 },
+  DRS: { cityStation: 'Dresden Hbf', checkInMinutes: 60, arrivalMinutes: 15, transferMinutes: 25 },
+  BRE: { cityStation: 'Bremen Hbf', checkInMinutes: 60, arrivalMinutes: 15, transferMinutes: 20 },
+};
+
+// ============ Helpers ============
+
+function getAirportAccess(iataCode: string): AirportAccess | null {
+  const config = AIRPORT_ACCESS[iataCode];
+  const airportStation = getAirportRailStation(iataCode);
+  return config && airportStation ? { ...config, airportStation } : null;
+}
+
+async function resolveStationId(name: string): Promise<string | undefined> {
+  const { place } = await resolvePlace(name, { stationsOnly: true });
+  return place.stationId;
+}
+
+function toAccessLeg(direction: AccessLeg['direction'], journey: Journey): AccessLeg {
+  const firstLeg = journey.legs[0];
+  const lastLeg = journey.legs[journey.legs.length - 1];
+
+  return {
+    direction,
+    from: firstLeg.origin.name,
+    to: lastLeg.destination.name,
+    departure: firstLeg.departure,
+    arrival: lastLeg.arrival,
+    durationMinutes: getJourneyDuration(journey),
+    lines: journey.legs.filter(leg => !leg.walking && leg.line).map(leg => leg.line!.name),
+    estimated: false,
+  };
+}
+
+function estimatedLeg(direction: AccessLeg['direction'], config: AirportAccess): AccessLeg {
+  const [from, to] = direction === 'access'
+    ? [config.cityStation, config.airportStation]
+    : [config.airportStation, config.cityStation];
+
+  return {
+    direction,
+    from,
+    to,
+    departure: null,
+    arrival: null,
+    durationMinutes: config.transferMinutes,
+    lines: [],
+    estimated: true,
+  };
+}
+
+/**
+ * Find the latest rail connection to the airport that arrives before check-in
+ */
+async function findAccessLeg(config: AirportAccess, departureAt: string): Promise<AccessLeg> {
+  try {
+    const [cityId, airportId] = await Promise.all([
+      resolveStationId(config.cityStation),
+      resolveStationId(config.airportStation),
+    ]);
+    if (!cityId || !airportId) return estimatedLeg('access', config);
+
+    const response = await findJourneys(cityId, airportId, {
+      arrival: addMinutes(departureAt, -config.checkInMinutes),
+      results: 1,
+    });
+    const journey = response.journeys[response.journeys.length - 1];
+    return journey ? toAccessLeg('access', journey) : estimatedLeg('access', config);
+  } catch (error) {
+    console.error('Airport access leg error:', error);
+    return estimatedLeg('access', config);
+  }
+}
+
+/**
+ * Find the first rail connection into the city after baggage claim
+ */
+async function findEgressLeg(config: AirportAccess, arrivalAt: string): Promise<AccessLeg> {
+  try {
+    const [airportId, cityId] = await Promise.all([
+      resolveStationId(config.airportStation),
+      resolveStationId(config.cityStation),
+    ]);
+    if (!airportId || !cityId) return estimatedLeg('egress', config);
+
+    const response = await findJourneys(airportId, cityId, {
+      departure: addMinutes(arrivalAt, config.arrivalMinutes),
+      results: 1,
+    });
+    const journey = response.journeys[0];
+    return journey ? toAccessLeg('egress', journey) : estimatedLeg('egress', config);
+  } catch (error) {
+    console.error('Airport egress leg error:', error);
+    return estimatedLeg('egress', config);
+  }
+}
+
+/**
+ * Add access/egress legs and buffers to one direction of a flight
+ * The span runs from the access leg's departure to the egress leg's arrival;
+ * estimated legs count with their typical duration.
+ */
+async function toDoorToDoor(itinerary: FlightItinerary): Promise<DoorToDoorItinerary> {
+  const originConfig = getAirportAccess(itinerary.departure.airport);
+  const destConfig = getAirportAccess(itinerary.arrival.airport);
+
+  const [access, egress] = await Promise.all([
+    originConfig ? findAccessLeg(originConfig, itinerary.departure.time) : null,
+    destConfig ? findEgressLeg(destConfig, itinerary.arrival.time) : null,
+  ]);
+
+  const buffers = {
+    checkInMinutes: originConfig?.checkInMinutes ?? DEFAULT_CHECK_IN_MINUTES,
+    arrivalMinutes: destConfig?.arrivalMinutes ?? DEFAULT_ARRIVAL_MINUTES,
+  };
+
+  const departure = access?.departure ?? addMinutes(
+    itinerary.departure.time,
+    -(buffers.checkInMinutes + (access?.durationMinutes ?? 0)),
+    getAirportTimeZone(itinerary.departure.airport)
+  );
+  const arrival = egress?.arrival ?? addMinutes(
+    itinerary.arrival.time,
+    buffers.arrivalMinutes + (egress?.durationMinutes ?? 0),
+    getAirportTimeZone(itinerary.arrival.airport)
+  );
+
+  return {
+    departure,
+    arrival,
+    minutes: Math.round((Date.parse(arrival) - Date.parse(departure)) / 60000),
+    access,
+    egress,
+    buffers,
+  };
+}
+
+// ============ API Functions ============
+
+/**
+ * Add access/egress legs, buffers and door-to-door duration to a flight
+ * Round trips get the same for the inbound itinerary.
+ */
+export async function withAirportAccess(flight: FlightResult): Promise<DoorToDoorFlight> {
+  const [outbound, inbound] = await Promise.all([
+    toDoorToDoor(flight.outbound),
+    flight.inbound ? toDoorToDoor(flight.inbound) : null,
+  ]);
+
+  return {
+    ...flight,
+    doorToDoorMinutes: outbound.minutes,
+    doorToDoorDeparture: outbound.departure,
+    doorToDoorArrival: outbound.arrival,
+    access: outbound.access,
+    egress: outbound.egress,
+    buffers: outbound.buffers,
+    inboundDoorToDoor: inbound,
+  };
+}
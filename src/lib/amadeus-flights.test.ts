@@ -0,0 +1,36 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { APIContext } from 'astro';
+import { searchAirports } from './amadeus-flights';
+import { GET as airports } from '../pages/api/flights/airports';
+
+beforeEach(() => {
+  vi.stubEnv('AMADEUS_CLIENT_ID', 'id');
+  vi.stubEnv('AMADEUS_CLIENT_SECRET', 'secret');
+  vi.stubGlobal('fetch', async () => {
+    throw new TypeError('fetch failed');
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe('Amadeus network failures', () => {
+  it('are reported as upstream errors', async () => {
+    await expect(searchAirports('Berlin')).rejects.toMatchObject({
+      name: 'UpstreamHttpError',
+      status: 0,
+      upstream: 'Amadeus API',
+      message: 'Amadeus API Error: fetch failed',
+    });
+  });
+
+  it('answer the airport search with a 502 error envelope', async () => {
+    const url = new URL('http://localhost/api/flights/airports?q=Berlin');
+    const response = await airports({ url, request: new Request(url) } as unknown as APIContext);
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toMatchObject({ code: 'UPSTREAM_UNAVAILABLE', provider: 'amadeus' });
+  });
+});
@@ -7,8 +7,21 @@
  * 
  * To use: Set AMADEUS_CLIENT_ID and AMADEUS_CLIENT_SECRET env vars
  * Get credentials at: https://developers.amadeus.com/
+ * Without credentials (or with MOCK_PROVIDERS=true) calls are answered
+ * by ./mock-providers
  */
 
+import { cached, type CacheEndpoint } from './cache';
+import { UpstreamHttpError, parseRetryAfter } from './rate-limit';
+import { getAirportTimeZone } from './locations';
+import { toOffsetIso, withOffsetAt, addMinutes } from './time';
+import {
+  isMockMode,
+  mockAirportSearch,
+  mockFlightSearch,
+  mockFlightDates,
+} from './mock-providers';
+
 const AMADEUS_API_BASE = 'https://test.api.amadeus.com'; // Use production.api.amadeus.com for live
 
 // Token cache
@@ -85,8 +98,102 @@ export interface AirportLocation {
   };
 }
 
+export interface FlightDate {
+  type: 'flight-date';
+  origin: string;
+  destination: string;
+  departureDate: string; // YYYY-MM-DD
+  returnDate?: string;
+  price: {
+    total: string;
+  };
+}
+
+export interface FlightDatesResponse {
+  data: FlightDate[];
+  meta?: {
+    currency: string;
+  };
+}
+
+export interface FlightSegment {
+  departure: Segment['departure'];
+  arrival: Segment['arrival'];
+  airline: string;
+  flightNumber: string;
+  duration: string;
+}
+
+export interface FlightItinerary {
+  direction: 'outbound' | 'inbound';
+  departure: { time: string; airport: string; terminal?: string };
+  arrival: { time: string; airport: string; terminal?: string };
+  duration: string;
+  durationMinutes: number; // including layovers
+  stops: number;
+  segments: FlightSegment[];
+}
+
+export interface TravelerPrice {
+  travelerId: string;
+  travelerType: string; // ADULT, CHILD, HELD_INFANT, ...
+  price: number;
+  currency: string;
+}
+
+export interface FlightResult {
+  id: string;
+  price: number; // total for all travellers and both directions
+  currency: string;
+  // Top-level times, airline and segments describe the outbound itinerary
+  departure: { time: string; airport: string; terminal?: string };
+  arrival: { time: string; airport: string; terminal?: string };
+  duration: string;
+  durationMinutes: number;
+  stops: number;
+  airline: string;
+  airlineCode: string;
+  flightNumber: string;
+  stopover?: string;
+  segments?: FlightSegment[];
+  outbound: FlightItinerary;
+  inbound: FlightItinerary | null; // only for round trips
+  travelers: TravelerPrice[];
+}
+
 // ============ Auth ============
 
+/**
+ * Check if Amadeus credentials are configured
+ */
+export function isAmadeusConfigured(): boolean {
+  return !!(import.meta.env.AMADEUS_CLIENT_ID && import.meta.env.AMADEUS_CLIENT_SECRET);
+}
+
+/**
+ * Check if Amadeus calls are answered by the mock provider
+ */
+export function isAmadeusMocked(): boolean {
+  return isMockMode() || !isAmadeusConfigured();
+}
+
+/**
+ * fetch() that reports network failures as UpstreamHttpError, like fetchWithRetry()
+ */
+async function amadeusFetch(url: string, init: RequestInit): Promise<Response> {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    // Network failure, status 0 like a failed fetch in the browser
+    throw new UpstreamHttpError(
+      `Amadeus API Error: ${error instanceof Error ? error.message : 'network error'}`,
+      0,
+      undefined,
+      'Amadeus API'
+    );
+  }
+}
+
 async function getAccessToken(): Promise<string> {
   const clientId = import.meta.env.AMADEUS_CLIENT_ID;
   const clientSecret = import.meta.env.AMADEUS_CLIENT_SECRET;
@@ -100,7 +207,7 @@ async function getAccessToken(): Promise<string> {
     return accessToken;
   }
   
-  const response = await fetch(`${AMADEUS_API_BASE}/v1/security/oauth2/token`, {
+  const response = await amadeusFetch(`${AMADEUS_API_BASE}/v1/security/oauth2/token`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/x-www-form-urlencoded',
@@ -113,7 +220,7 @@ async function getAccessToken(): Promise<string> {
   });
   
   if (!response.ok) {
-    throw new Error(`Amadeus auth failed: ${response.status}`);
+    throw new UpstreamHttpError(`Amadeus auth failed: ${response.status}`, response.status, undefined, 'Amadeus API');
   }
   
   const data = await response.json();
@@ -123,10 +230,20 @@ async function getAccessToken(): Promise<string> {
   return accessToken!;
 }
 
-async function amadeusRequest<T>(endpoint: string, options?: RequestInit): Promise<T> {
+async function amadeusRequest<T>(
+  endpoint: string,
+  options?: RequestInit,
+  cacheAs?: CacheEndpoint // only for GET requests
+): Promise<T> {
+  if (cacheAs) {
+    return cached(cacheAs, `${AMADEUS_API_BASE}${endpoint}`, () =>
+      amadeusRequest<T>(endpoint, options)
+    );
+  }
+  
   const token = await getAccessToken();
   
-  const response = await fetch(`${AMADEUS_API_BASE}${endpoint}`, {
+  const response = await amadeusFetch(`${AMADEUS_API_BASE}${endpoint}`, {
     ...options,
     headers: {
       'Authorization': `Bearer ${token}`,
@@ -137,7 +254,12 @@ async function amadeusRequest<T>(endpoint: string, options?: RequestInit): Promi
   
   if (!response.ok) {
     const error = await response.json().catch(() => ({}));
-    throw new Error(error.error_description || `Amadeus API error: ${response.status}`);
+    throw new UpstreamHttpError(
+      error.error_description || `Amadeus API error: ${response.status}`,
+      response.status,
+      parseRetryAfter(response.headers.get('Retry-After')),
+      'Amadeus API'
+    );
   }
   
   return response.json();
@@ -149,6 +271,8 @@ async function amadeusRequest<T>(endpoint: string, options?: RequestInit): Promi
  * Search for airport/city by keyword
  */
 export async function searchAirports(keyword: string): Promise<AirportLocation[]> {
+  if (isAmadeusMocked()) return mockAirportSearch(keyword);
+  
   const params = new URLSearchParams({
     keyword,
     subType: 'AIRPORT,CITY',
@@ -156,7 +280,9 @@ export async function searchAirports(keyword: string): Promise<AirportLocation[]
   });
   
   const response = await amadeusRequest<{ data: AirportLocation[] }>(
-    `/v1/reference-data/locations?${params}`
+    `/v1/reference-data/locations?${params}`,
+    undefined,
+    'amadeus:locations'
   );
   
   return response.data || [];
@@ -176,6 +302,8 @@ export async function searchFlights(options: {
   nonStop?: boolean;
   maxResults?: number;
 }): Promise<FlightSearchResponse> {
+  if (isAmadeusMocked()) return mockFlightSearch(options);
+  
   const params = new URLSearchParams({
     originLocationCode: options.origin,
     destinationLocationCode: options.destination,
@@ -198,23 +326,46 @@ export async function searchFlights(options: {
   }
   
   return amadeusRequest<FlightSearchResponse>(
-    `/v2/shopping/flight-offers?${params}`
+    `/v2/shopping/flight-offers?${params}`,
+    undefined,
+    'amadeus:flight-offers'
   );
 }
 
 /**
  * Get cheapest dates for a route
+ * Served from Amadeus' cache, so prices may be a few days old
  */
 export async function getFlightDates(options: {
   origin: string;
   destination: string;
-}): Promise<any> {
+  departureDate?: string; // YYYY-MM-DD or range "YYYY-MM-DD,YYYY-MM-DD"
+  oneWay?: boolean;
+  nonStop?: boolean;
+}): Promise<FlightDatesResponse> {
+  if (isAmadeusMocked()) return mockFlightDates(options);
+  
   const params = new URLSearchParams({
     origin: options.origin,
     destination: options.destination,
+    viewBy: 'DATE',
   });
   
-  return amadeusRequest(`/v1/shopping/flight-dates?${params}`);
+  if (options.departureDate) {
+    params.set('departureDate', options.departureDate);
+  }
+  if (options.oneWay !== undefined) {
+    params.set('oneWay', String(options.oneWay));
+  }
+  if (options.nonStop) {
+    params.set('nonStop', 'true');
+  }
+  
+  return amadeusRequest<FlightDatesResponse>(
+    `/v1/shopping/flight-dates?${params}`,
+    undefined,
+    'amadeus:flight-dates'
+  );
 }
 
 // ============ Helper Functions ============
@@ -274,41 +425,105 @@ export function getAirlineName(
   return carriers?.[code] || code;
 }
 
-// German airport IATA codes for common cities
-export const GERMAN_AIRPORTS: Record<string, string> = {
-  'Berlin': 'BER',
-  'Frankfurt': 'FRA',
-  'München': 'MUC',
-  'Hamburg': 'HAM',
-  'Düsseldorf': 'DUS',
-  'Köln': 'CGN',
-  'Stuttgart': 'STR',
-  'Hannover': 'HAJ',
-  'Nürnberg': 'NUE',
-  'Leipzig': 'LEJ',
-  'Dresden': 'DRS',
-  'Bremen': 'BRE',
-};
-
 /**
- * Try to get IATA code for a German city
+ * Attach UTC offsets to a segment's local airport times
+ * Uses the airport table's time zones; if only one end is known, the other
+ * follows from the segment duration. Unknown airports at both ends keep the
+ * local time without offset.
  */
-export function getAirportCode(city: string): string | undefined {
-  // Exact match
-  if (GERMAN_AIRPORTS[city]) return GERMAN_AIRPORTS[city];
-  
-  // Partial match
-  const normalized = city.toLowerCase();
-  for (const [name, code] of Object.entries(GERMAN_AIRPORTS)) {
-    if (name.toLowerCase().includes(normalized) || normalized.includes(name.toLowerCase())) {
-      return code;
-    }
+function withSegmentOffsets(segment: Segment): Pick<Segment, 'departure' | 'arrival'> {
+  const departureZone = getAirportTimeZone(segment.departure.iataCode);
+  const arrivalZone = getAirportTimeZone(segment.arrival.iataCode);
+  const minutes = getDurationMinutes(segment.duration);
+
+  let departureAt = segment.departure.at;
+  let arrivalAt = segment.arrival.at;
+  if (departureZone) {
+    departureAt = toOffsetIso(departureAt, departureZone);
+    arrivalAt = arrivalZone
+      ? toOffsetIso(arrivalAt, arrivalZone)
+      : withOffsetAt(arrivalAt, addMinutes(departureAt, minutes));
+  } else if (arrivalZone) {
+    arrivalAt = toOffsetIso(arrivalAt, arrivalZone);
+    departureAt = withOffsetAt(departureAt, addMinutes(arrivalAt, -minutes));
   }
+
+  return {
+    departure: { ...segment.departure, at: departureAt },
+    arrival: { ...segment.arrival, at: arrivalAt },
+  };
+}
+
+/**
+ * Transform an Amadeus itinerary (one direction of an offer)
+ * Times carry the airport's UTC offset, see withSegmentOffsets()
+ */
+export function transformItinerary(
+  itinerary: Itinerary,
+  direction: FlightItinerary['direction'],
+  carriers?: Record<string, string>
+): FlightItinerary {
+  const segments = itinerary.segments.map(seg => ({ ...seg, ...withSegmentOffsets(seg) }));
+  const firstSegment = segments[0];
+  const lastSegment = segments[segments.length - 1];
   
-  // Maybe it's already an IATA code
-  if (/^[A-Z]{3}$/.test(city.toUpperCase())) {
-    return city.toUpperCase();
-  }
+  return {
+    direction,
+    departure: {
+      time: firstSegment.departure.at,
+      airport: firstSegment.departure.iataCode,
+      terminal: firstSegment.departure.terminal,
+    },
+    arrival: {
+      time: lastSegment.arrival.at,
+      airport: lastSegment.arrival.iataCode,
+      terminal: lastSegment.arrival.terminal,
+    },
+    duration: parseDuration(itinerary.duration),
+    durationMinutes: getDurationMinutes(itinerary.duration),
+    stops: getStops(itinerary),
+    segments: segments.map(seg => ({
+      departure: seg.departure,
+      arrival: seg.arrival,
+      airline: getAirlineName(seg.carrierCode, carriers),
+      flightNumber: `${seg.carrierCode} ${seg.number}`,
+      duration: parseDuration(seg.duration),
+    })),
+  };
+}
+
+/**
+ * Transform an Amadeus offer into the flat shape used by the frontend
+ */
+export function transformFlightOffer(
+  offer: FlightOffer,
+  carriers?: Record<string, string>
+): FlightResult {
+  const [outboundItinerary, inboundItinerary] = offer.itineraries;
+  const outbound = transformItinerary(outboundItinerary, 'outbound', carriers);
+  const firstSegment = outboundItinerary.segments[0];
   
-  return undefined;
+  return {
+    id: offer.id,
+    price: parseFloat(offer.price.grandTotal),
+    currency: offer.price.currency,
+    departure: outbound.departure,
+    arrival: outbound.arrival,
+    duration: outbound.duration,
+    durationMinutes: outbound.durationMinutes,
+    stops: outbound.stops,
+    airline: getAirlineName(firstSegment.carrierCode, carriers),
+    airlineCode: firstSegment.carrierCode,
+    flightNumber: `${firstSegment.carrierCode} ${firstSegment.number}`,
+    stopover: outbound.stops > 0 ? firstSegment.arrival.iataCode : undefined,
+    segments: outbound.segments,
+    outbound,
+    inbound: inboundItinerary ? transformItinerary(inboundItinerary, 'inbound', carriers) : null,
+    travelers: (offer.travelerPricings || []).map(pricing => ({
+      travelerId: pricing.travelerId,
+      travelerType: pricing.travelerType,
+      price: parseFloat(pricing.price.total),
+      currency: pricing.price.currency,
+    })),
+  };
 }
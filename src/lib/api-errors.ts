@@ -0,0 +1,219 @@
+/**
+ * API Errors
+ * Shared error envelope for all /api routes:
+ *
+ *   { "error": "Unbekannter Ort: Hambrug", "code": "LOCATION_NOT_FOUND", ... }
+ *
+ * `error` is a human-readable message in German or English (from ?lang= or
+ * Accept-Language), `code` is stable for clients to branch on. Upstream
+ * failures carry the `provider` that failed.
+ */
+
+import { LocationNotFoundError, AmbiguousLocationError, type Place } from './locations';
+import { UpstreamHttpError } from './rate-limit';
+
+// ============ Types ============
+
+export type ApiErrorCode =
+  | 'INVALID_PARAMETER'
+  | 'LOCATION_NOT_FOUND'
+  | 'AMBIGUOUS_LOCATION'
+  | 'NOT_FOUND'
+  | 'UPSTREAM_RATE_LIMITED'
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'INTERNAL_ERROR';
+
+export type ApiProvider = 'db' | 'amadeus' | 'motis';
+
+export type Locale = 'de' | 'en';
+
+export interface ApiErrorBody {
+  error: string; // localized message
+  code: ApiErrorCode;
+  provider?: ApiProvider;
+  parameter?: string;
+  detail?: string; // technical detail in English, e.g. the expected format
+  fields?: FieldError[]; // every invalid parameter, for INVALID_PARAMETER
+  alternatives?: Array<{ id: string; name: string; type: Place['type'] }>;
+  retryAfter?: number; // seconds
+}
+
+export interface FieldError {
+  parameter: string;
+  detail: string;
+}
+
+export class ApiError extends Error {
+  constructor(
+    public code: ApiErrorCode,
+    public details: {
+      parameter?: string;
+      detail?: string;
+      fields?: FieldError[];
+      input?: string;
+      provider?: ApiProvider;
+      alternatives?: Place[];
+      retryAfterMs?: number;
+    } = {}
+  ) {
+    super(details.detail ?? code);
+    this.name = 'ApiError';
+  }
+}
+
+// ============ Config ============
+
+const STATUS: Record<ApiErrorCode, number> = {
+  INVALID_PARAMETER: 400,
+  LOCATION_NOT_FOUND: 400,
+  AMBIGUOUS_LOCATION: 409,
+  NOT_FOUND: 404,
+  UPSTREAM_RATE_LIMITED: 429,
+  UPSTREAM_UNAVAILABLE: 502,
+  INTERNAL_ERROR: 500,
+};
+
+const PROVIDER_NAMES: Record<ApiProvider, string> = {
+  db: 'Deutsche Bahn',
+  amadeus: 'Amadeus',
+  motis: 'MOTIS',
+};
+
+// Upstream names used in UpstreamHttpError
+const UPSTREAM_PROVIDERS: Record<string, ApiProvider> = {
+  'DB API': 'db',
+  'Amadeus API': 'amadeus',
+  'MOTIS API': 'motis',
+};
+
+const MESSAGES: Record<ApiErrorCode, Record<Locale, (error: ApiError) => string>> = {
+  INVALID_PARAMETER: {
+    de: e => `Ungültiger oder fehlender Parameter "${e.details.parameter}"`,
+    en: e => `Invalid or missing parameter "${e.details.parameter}"`,
+  },
+  LOCATION_NOT_FOUND: {
+    de: e => `Unbekannter Ort: ${e.details.input}`,
+    en: e => `Location not found: ${e.details.input}`,
+  },
+  AMBIGUOUS_LOCATION: {
+    de: e => `Mehrdeutiger Ort: ${e.details.input}`,
+    en: e => `Ambiguous location: ${e.details.input}`,
+  },
+  NOT_FOUND: {
+    de: () => 'Nicht gefunden',
+    en: () => 'Not found',
+  },
+  UPSTREAM_RATE_LIMITED: {
+    de: e => `${providerName(e)} ist ausgelastet, bitte später erneut versuchen`,
+    en: e => `${providerName(e)} is rate limited, please try again later`,
+  },
+  UPSTREAM_UNAVAILABLE: {
+    de: e => `${providerName(e)} ist derzeit nicht erreichbar`,
+    en: e => `${providerName(e)} is currently unavailable`,
+  },
+  INTERNAL_ERROR: {
+    de: () => 'Interner Fehler',
+    en: () => 'Internal error',
+  },
+};
+
+// ============ Helpers ============
+
+function providerName(error: ApiError): string {
+  return error.details.provider ? PROVIDER_NAMES[error.details.provider] : 'Upstream API';
+}
+
+/**
+ * Map any thrown error to an ApiError
+ * `fallbackProvider` is used for upstream errors that don't name their upstream
+ */
+export function toApiError(error: unknown, fallbackProvider?: ApiProvider): ApiError {
+  if (error instanceof ApiError) return error;
+
+  if (error instanceof LocationNotFoundError) {
+    return new ApiError('LOCATION_NOT_FOUND', { input: error.input });
+  }
+  if (error instanceof AmbiguousLocationError) {
+    return new ApiError('AMBIGUOUS_LOCATION', { input: error.input, alternatives: error.alternatives });
+  }
+  if (error instanceof UpstreamHttpError) {
+    const provider = (error.upstream && UPSTREAM_PROVIDERS[error.upstream]) || fallbackProvider;
+    if (error.status === 429) {
+      return new ApiError('UPSTREAM_RATE_LIMITED', { provider, retryAfterMs: error.retryAfterMs });
+    }
+    if (error.status === 404) {
+      return new ApiError('NOT_FOUND', { provider });
+    }
+    return new ApiError('UPSTREAM_UNAVAILABLE', { provider });
+  }
+
+  return new ApiError('INTERNAL_ERROR');
+}
+
+// ============ API Functions ============
+
+/**
+ * Pick the response language from ?lang= or the Accept-Language header
+ */
+export function getLocale(request: Request, fallback: Locale = 'en'): Locale {
+  const lang = new URL(request.url).searchParams.get('lang');
+  if (lang === 'de' || lang === 'en') return lang;
+
+  const preferred = request.headers.get('Accept-Language')?.split(',')[0]?.trim().toLowerCase();
+  if (preferred?.startsWith('de')) return 'de';
+  if (preferred?.startsWith('en')) return 'en';
+  return fallback;
+}
+
+/**
+ * Build the error envelope for an ApiError
+ */
+export function toErrorBody(error: ApiError, locale: Locale): ApiErrorBody {
+  const { parameter, detail, fields, provider, alternatives, retryAfterMs } = error.details;
+
+  return {
+    error: MESSAGES[error.code][locale](error),
+    code: error.code,
+    ...(provider && { provider }),
+    ...(parameter && { parameter }),
+    ...(detail && { detail }),
+    ...(fields && { fields }),
+    ...(alternatives && {
+      alternatives: alternatives.map(p => ({ id: p.id, name: p.name, type: p.type })),
+    }),
+    ...(retryAfterMs !== undefined && { retryAfter: Math.ceil(retryAfterMs / 1000) }),
+  };
+}
+
+/**
+ * JSON error response for anything thrown in a route
+ * Unexpected errors (5xx) are logged with the given label
+ */
+export function errorResponse(error: unknown, options: {
+  locale: Locale;
+  provider?: ApiProvider;
+  log?: string; // e.g. "Departures error"
+}): Response {
+  const apiError = toApiError(error, options.provider);
+  const status = STATUS[apiError.code];
+  const body = toErrorBody(apiError, options.locale);
+
+  if (status >= 500) {
+    console.error(`${options.log ?? 'API error'}:`, error);
+  }
+
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(body.retryAfter !== undefined && { 'Retry-After': String(body.retryAfter) }),
+    },
+  });
+}
+
+/**
+ * Shortcut for a missing or malformed query parameter
+ */
+export function invalidParameter(parameter: string, detail?: string): ApiError {
+  return new ApiError('INVALID_PARAMETER', { parameter, detail });
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { APIContext } from 'astro';
+import { journeyRefreshQuery, journeysQuery, parseQuery } from './api-schemas';
+import { encodeSnapshot } from './journey-diff';
+import * as connections from '../pages/api/connections';
+
+const parseJourneys = (query: string) =>
+  parseQuery(journeysQuery, new URLSearchParams(`from=Berlin&to=Hamburg&${query}`));
+
+describe('dateTime parameters', () => {
+  it('attaches the Berlin offset to wall-clock times', () => {
+    expect(parseJourneys('when=2025-06-01T08:00').when).toBe('2025-06-01T08:00:00+02:00');
+    expect(parseJourneys('arrival=2025-01-15T08:00:30').arrival).toBe('2025-01-15T08:00:30+01:00');
+  });
+
+  it('keeps an explicit offset', () => {
+    expect(parseJourneys('when=2025-06-01T08:00Z').when).toBe('2025-06-01T10:00:00+02:00');
+    expect(parseJourneys(`when=${encodeURIComponent('2025-06-01T08:00+01:00')}`).when).toBe('2025-06-01T09:00:00+02:00');
+  });
+
+  it.each(['June 1 2025', '2025-06-01 08:00', '2025-06-01T25:00', '1748764800000'])(
+    'rejects %s as an invalid parameter',
+    value => {
+      expect(() => parseJourneys(`when=${encodeURIComponent(value)}`)).toThrow(
+        expect.objectContaining({
+          code: 'INVALID_PARAMETER',
+          details: expect.objectContaining({ parameter: 'when' }),
+        })
+      );
+    }
+  );
+});
+
+describe('journey snapshots', () => {
+  const parseRefresh = (since: string) =>
+    parseQuery(journeyRefreshQuery, new URLSearchParams({ token: 'T', since }));
+
+  it('decodes the snapshot of a previous refresh', () => {
+    const snapshot = { legs: [] };
+    expect(parseRefresh(encodeSnapshot(snapshot)).since).toEqual(snapshot);
+  });
+
+  it.each(['not base64!', encodeSnapshot({ legs: [{ key: 'x' }] } as never)])(
+    'rejects %s as an invalid parameter',
+    since => {
+      expect(() => parseRefresh(since)).toThrow(
+        expect.objectContaining({ code: 'INVALID_PARAMETER', details: expect.objectContaining({ parameter: 'since' }) })
+      );
+    }
+  );
+});
+
+describe('date parameters', () => {
+  it('rejects a past date on /api/connections with 400', async () => {
+    const url = new URL('http://localhost/api/connections?from=Berlin&to=Hamburg&date=2020-01-01');
+    const response = await connections.GET({ url, request: new Request(url) } as unknown as APIContext);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      code: 'INVALID_PARAMETER',
+      fields: [expect.objectContaining({ parameter: 'date' })],
+    });
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * API Schemas
+ * Query parameter schemas for the /api routes, declared once and used for
+ * both request validation and the generated API docs.
+ *
+ * Handlers call parseQuery() / parseParams() and only ever see the parsed,
+ * typed values.
+ */
+
+import { z } from 'astro/zod';
+import { PRODUCT_FILTER_KEYS, type ProductFilter } from './db-transport';
+import { MAX_FLIGHT_CALENDAR_DAYS, MAX_RAIL_CALENDAR_DAYS } from './price-calendar';
+import { ApiError } from './api-errors';
+import { today, toOffsetIso } from './time';
+import { decodeSnapshot, type JourneySnapshot } from './journey-diff';
+
+// ============ Config ============
+
+export const MAX_VIA_STATIONS = 3;
+
+const TRAVEL_CLASSES = ['ECONOMY', 'PREMIUM_ECONOMY', 'BUSINESS', 'FIRST'] as const;
+
+// ============ Field Types ============
+
+const date = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+// Amadeus and the price calendars reject dates in the past
+const upcomingDate = date.refine(value => value >= today(), 'Date must not be in the past');
+
+const time = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+
+// YYYY-MM-DD[THH:MM[:SS[.sss]]][Z|±HH:MM] - Date.parse alone also takes "June 1 2025"
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+// Times without offset are Europe/Berlin; handlers get them with offset
+const dateTime = z.string()
+  .refine(
+    value => ISO_DATE_TIME.test(value) && !isNaN(Date.parse(value)),
+    'Expected an ISO date/time, e.g. 2025-06-01T08:00'
+  )
+  .transform(value => toOffsetIso(value));
+
+const integer = (min: number, max: number) =>
+  z.coerce.number().int().min(min).max(max);
+
+const flag = z.enum(['true', 'false']).transform(value => value === 'true');
+
+const legSnapshot = z.object({
+  key: z.string(),
+  departureDelay: z.number().int(),
+  arrivalDelay: z.number().int(),
+  departurePlatform: z.string().nullable(),
+  arrivalPlatform: z.string().nullable(),
+  cancelled: z.boolean(),
+  transferBroken: z.boolean(),
+});
+
+// Encoded JourneySnapshot, as returned by the previous refresh
+const journeySnapshot = z.string().transform((value, ctx) => {
+  let decoded: unknown;
+  try {
+    decoded = decodeSnapshot(value);
+  } catch {
+    decoded = undefined;
+  }
+  const result = z.object({ legs: z.array(legSnapshot) }).safeParse(decoded);
+  if (!result.success) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Expected the snapshot of a previous refresh' });
+    return z.NEVER;
+  }
+  return result.data as JourneySnapshot;
+});
+
+const productList = z.string()
+  .transform(value => value.split(',').map(p => p.trim()).filter(Boolean) as Array<keyof ProductFilter>)
+  .superRefine((products, ctx) => {
+    const unknown = products.filter(p => !PRODUCT_FILTER_KEYS.includes(p));
+    if (unknown.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Unknown products: ${unknown.join(', ')} (expected ${PRODUCT_FILTER_KEYS.join(', ')})`,
+      });
+    }
+  });
+
+const productParams = {
+  products: productList.optional()
+    .describe('Comma-separated products to include, e.g. "regional,suburban"'),
+  exclude: productList.optional()
+    .describe('Comma-separated products to exclude, e.g. "bus"'),
+  deutschlandticket: flag.default('false')
+    .describe('"true" to exclude ICE/IC/EC'),
+};
+
+// ============ Transport ============
+
+export const stationSearchQuery = z.object({
+  q: z.string().min(2).describe('Search query, min 2 characters'),
+  limit: integer(1, 20).default(10).describe('Max results'),
+});
+
+export const departuresQuery = z.object({
+  station: z.string().describe('Station ID or name'),
+  duration: integer(1, 720).default(60).describe('Time window in minutes'),
+  results: integer(1, 50).default(20).describe('Max results'),
+  ...productParams,
+});
+
+export const arrivalsQuery = departuresQuery;
+
+export const boardQuery = departuresQuery.extend({
+  when: dateTime.optional().describe('Start of the time window, default now; Europe/Berlin unless an offset is given'),
+  results: integer(1, 50).default(20).describe('Max results per direction'),
+});
+
+export const disruptionsQuery = z.object({
+  station: z.string().describe('Station ID or name'),
+  duration: integer(1, 720).default(120).describe('Time window in minutes'),
+  ...productParams,
+});
+
+export const journeysQuery = z.object({
+  from: z.string().describe('Origin station ID or name'),
+  to: z.string().describe('Destination station ID or name'),
+  when: dateTime.optional().describe('Departure time, default now; Europe/Berlin unless an offset is given'),
+  arrival: dateTime.optional().describe('Arrive-by time, instead of when; Europe/Berlin unless an offset is given'),
+  via: z.array(z.string())
+    .max(MAX_VIA_STATIONS, `At most ${MAX_VIA_STATIONS} via stations are supported`)
+    .default([])
+    .describe('Via station ID or name, repeat for several stations'),
+  transferTime: integer(0, 120).optional().describe('Minimum transfer time in minutes'),
+  results: integer(1, 10).default(5).describe('Max results'),
+  transfers: integer(0, 10).optional().describe('Max transfers'),
+  ...productParams,
+  earlierThan: z.string().optional().describe('earlierRef of a previous response, for earlier journeys'),
+  laterThan: z.string().optional().describe('laterRef of a previous response, for later journeys'),
+  sort: z.enum(['reliability']).optional().describe('"reliability" to put the safest connections first'),
+  minReliability: integer(0, 100).default(0).describe('Drop journeys with a lower reliability score'),
+});
+
+export const journeyRefreshQuery = z.object({
+  token: z.string().describe('refreshToken from /api/transport/journeys'),
+  since: journeySnapshot.optional()
+    .describe('snapshot of the previous refresh, to report changes since then instead of against the timetable'),
+});
+
+export const tripParams = z.object({
+  id: z.string().min(1).describe('tripId from a departure, arrival or journey leg'),
+});
+
+export const railCalendarQuery = z.object({
+  from: z.string().describe('Origin station ID or name'),
+  to: z.string().describe('Destination station ID or name'),
+  start: upcomingDate.default(today).describe('First date YYYY-MM-DD, default today'),
+  days: integer(1, MAX_RAIL_CALENDAR_DAYS).default(7).describe('Number of days'),
+  time: time.default('06:00').describe('Earliest departure HH:MM (Europe/Berlin) sampled on each day'),
+});
+
+// ============ Flights ============
+
+export const airportSearchQuery = z.object({
+  q: z.string().min(2).describe('City name or IATA code, min 2 characters'),
+});
+
+export const flightSearchQuery = z.object({
+  from: z.string().describe('Origin city/airport'),
+  to: z.string().describe('Destination city/airport'),
+  date: upcomingDate.describe('Departure date YYYY-MM-DD'),
+  return: upcomingDate.optional().describe('Return date YYYY-MM-DD'),
+  adults: integer(1, 9).default(1).describe('Number of adults'),
+  class: z.enum(TRAVEL_CLASSES).default('ECONOMY').describe('Travel class'),
+  doorToDoor: flag.default('false').describe('"true" to add airport access/egress legs and buffers'),
+});
+
+export const flightCalendarQuery = z.object({
+  from: z.string().describe('Origin city/airport'),
+  to: z.string().describe('Destination city/airport'),
+  start: upcomingDate.default(today).describe('First date YYYY-MM-DD, default today'),
+  days: integer(1, MAX_FLIGHT_CALENDAR_DAYS).default(30).describe('Number of days'),
+});
+
+// ============ Connections ============
+
+export const connectionsQuery = z.object({
+  from: z.string().describe('Origin coordinates "lat,lon" or place name'),
+  to: z.string().describe('Destination coordinates "lat,lon" or place name'),
+  date: upcomingDate.default(today).describe('Travel date YYYY-MM-DD, default today'),
+  time: time.default('10:00').describe('Departure time HH:MM, Europe/Berlin'),
+});
+
+export const compareQuery = z.object({
+  from: z.string().describe('Origin city or station'),
+  to: z.string().describe('Destination city or station'),
+  date: upcomingDate.default(today).describe('Travel date YYYY-MM-DD, default today'),
+  time: time.default('08:00').describe('Departure time HH:MM, Europe/Berlin'),
+  sort: z.enum(['duration', 'price', 'departure']).default('duration').describe('Sort order'),
+});
+
+// ============ Assistant ============
+
+export const assistantQuery = z.object({
+  q: z.string().min(2).max(500).describe('Trip request in German or English, e.g. "Morgen früh von Köln nach Berlin"'),
+  stream: flag.default('false').describe('"true" to stream progress and partial results as Server-Sent Events'),
+});
+
+// ============ Registry ============
+
+export interface ApiRouteSchema {
+  path: string;
+  summary: string;
+  tag: 'transport' | 'flights' | 'connections' | 'assistant';
+  params?: z.AnyZodObject; // path params, written as {name} in the path
+  query?: z.AnyZodObject;
+}
+
+/**
+ * All documented GET routes
+ */
+export const API_ROUTES: ApiRouteSchema[] = [
+  { path: '/api/transport/search', summary: 'Search for stations', tag: 'transport', query: stationSearchQuery },
+  { path: '/api/transport/departures', summary: 'Live departures from a station', tag: 'transport', query: departuresQuery },
+  { path: '/api/transport/arrivals', summary: 'Live arrivals at a station', tag: 'transport', query: arrivalsQuery },
+  { path: '/api/transport/board', summary: 'Combined departures and arrivals board', tag: 'transport', query: boardQuery },
+  { path: '/api/transport/disruptions', summary: 'Active disruptions at a station, grouped by line', tag: 'transport', query: disruptionsQuery },
+  { path: '/api/transport/journeys', summary: 'Train connections between two stations', tag: 'transport', query: journeysQuery },
+  { path: '/api/transport/journeys/refresh', summary: 'Refresh a journey with realtime data', tag: 'transport', query: journeyRefreshQuery },
+  { path: '/api/transport/trips/{id}', summary: 'Stopovers and current position of a trip', tag: 'transport', params: tripParams },
+  { path: '/api/transport/calendar', summary: 'Cheapest train fare per day', tag: 'transport', query: railCalendarQuery },
+  { path: '/api/flights/airports', summary: 'Airport autocomplete', tag: 'flights', query: airportSearchQuery },
+  { path: '/api/flights/search', summary: 'Flight offers', tag: 'flights', query: flightSearchQuery },
+  { path: '/api/flights/calendar', summary: 'Cheapest one-way fare per day', tag: 'flights', query: flightCalendarQuery },
+  { path: '/api/connections', summary: 'Door-to-door connections via MOTIS', tag: 'connections', query: connectionsQuery },
+  { path: '/api/compare', summary: 'Compare train, flight and bus options', tag: 'connections', query: compareQuery },
+  { path: '/api/assistant', summary: 'Answer a free-text trip request', tag: 'assistant', query: assistantQuery },
+];
+
+// ============ Helpers ============
+
+/**
+ * Whether a field takes repeated query params, e.g. ?via=A&via=B
+ */
+function isArrayField(schema: z.ZodTypeAny): boolean {
+  if (schema instanceof z.ZodArray) return true;
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return isArrayField(schema.unwrap());
+  }
+  if (schema instanceof z.ZodDefault) return isArrayField(schema.removeDefault());
+  if (schema instanceof z.ZodEffects) return isArrayField(schema.innerType());
+  return false;
+}
+
+/**
+ * Parse raw param values against a schema
+ * Throws an INVALID_PARAMETER ApiError listing every invalid field.
+ */
+function validate<T extends z.AnyZodObject>(schema: T, raw: Record<string, unknown>): z.infer<T> {
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    const fields = result.error.issues.map(issue => ({
+      parameter: String(issue.path[0]),
+      detail: issue.message === 'Required' ? 'Parameter is required' : issue.message,
+    }));
+    throw new ApiError('INVALID_PARAMETER', { ...fields[0], fields });
+  }
+
+  return result.data;
+}
+
+// ============ API Functions ============
+
+/**
+ * Validate query params against a route schema
+ * Empty params (?when=) count as missing, so defaults apply.
+ */
+export function parseQuery<T extends z.AnyZodObject>(schema: T, params: URLSearchParams): z.infer<T> {
+  const raw: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(schema.shape as z.ZodRawShape)) {
+    const values = params.getAll(key).filter(Boolean);
+    raw[key] = isArrayField(field) ? values : values[0];
+  }
+  return validate(schema, raw);
+}
+
+/**
+ * Validate path params (Astro's `params`) against a route schema
+ */
+export function parseParams<T extends z.AnyZodObject>(schema: T, params: Record<string, string | undefined>): z.infer<T> {
+  return validate(schema, params);
+}
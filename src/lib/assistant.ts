@@ -0,0 +1,278 @@
+/**
+ * Trip Assistant
+ * Answers a free-text trip request for the chat widget: parses it into an
+ * intent (see assistant-intent.ts), resolves both places, runs the
+ * multimodal comparison and filters the options by the constraints of the
+ * request. The answer carries the structured options plus a short summary
+ * in the language of the request.
+ *
+ * Progress and partial results can be followed with onEvent, e.g. to stream
+ * them to the chat while slower providers are still searching.
+ */
+
+import {
+  getIntentParser,
+  type TripIntent,
+  type TravelMode,
+} from './assistant-intent';
+import {
+  compareConnections,
+  resolveEndpoint,
+  sortOptions,
+  type ComparisonEndpoint,
+  type ComparisonMode,
+  type ComparisonOption,
+  type ComparisonSource,
+  type ProviderStatus,
+} from './compare';
+import { LocationNotFoundError, AmbiguousLocationError, type Place } from './locations';
+import { toProductFilter } from './transport-format';
+import { formatDuration } from './db-transport';
+import { formatTime, toOffsetIso, today } from './time';
+import type { Locale } from './api-errors';
+
+// ============ Types ============
+
+export type AssistantStatus = 'ok' | 'incomplete' | 'needs_clarification' | 'no_results';
+
+export type AssistantStage = 'resolving' | 'searching';
+
+export interface AssistantAnswer {
+  status: AssistantStatus;
+  parser: string;   // name of the intent parser that was used
+  intent: TripIntent;
+  summary: string;  // short answer in intent.language
+  from?: ComparisonEndpoint;
+  to?: ComparisonEndpoint;
+  date?: string;
+  time?: string;
+  options: ComparisonOption[];
+  providers?: Record<ComparisonSource, ProviderStatus>;
+  missing?: Array<'origin' | 'destination'>; // for incomplete
+  clarification?: {                         // for needs_clarification
+    input: string;
+    alternatives: Array<{ id: string; name: string; type: Place['type'] }>;
+  };
+}
+
+export type AssistantEvent =
+  | { type: 'progress'; stage: AssistantStage; message: string }
+  // One provider answered; options are the best matches of all providers so far
+  | { type: 'results'; source: ComparisonSource; provider: ProviderStatus; options: ComparisonOption[] };
+
+export interface AnswerOptions {
+  onEvent?: (event: AssistantEvent) => void;
+  signal?: AbortSignal; // stops before the next upstream step, e.g. when the chat sends a new message
+}
+
+// ============ Config ============
+
+const MAX_OPTIONS = 5;
+
+const DEFAULT_TIME = '08:00';
+
+// Comparison modes that satisfy a requested travel mode
+const MODE_OPTIONS: Record<TravelMode, ComparisonMode[]> = {
+  train: ['train', 'transit'],
+  flight: ['flight'],
+  bus: ['bus'],
+};
+
+const MODE_LABELS: Record<Locale, Record<ComparisonMode, string>> = {
+  de: { train: 'Zug', flight: 'Flug', bus: 'Bus', transit: 'Nahverkehr' },
+  en: { train: 'train', flight: 'flight', bus: 'bus', transit: 'local transport' },
+};
+
+// ============ Helpers ============
+
+function formatPrice(amount: number, language: Locale): string {
+  return new Intl.NumberFormat(language === 'de' ? 'de-DE' : 'en-GB', { style: 'currency', currency: 'EUR' }).format(amount);
+}
+
+function formatDate(date: string, language: Locale): string {
+  return new Intl.DateTimeFormat(language === 'de' ? 'de-DE' : 'en-GB', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    timeZone: 'UTC',
+  }).format(new Date(`${date}T12:00:00Z`));
+}
+
+function formatMinutes(minutes: number, language: Locale): string {
+  if (language === 'de') return formatDuration(minutes);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)} h ${minutes % 60} min` : `${minutes} min`;
+}
+
+function describeOption(option: ComparisonOption, language: Locale): string {
+  const label = option.lines[0] ?? MODE_LABELS[language][option.mode];
+  const transfers = language === 'de'
+    ? `${option.transfers} Umstieg${option.transfers === 1 ? '' : 'e'}`
+    : `${option.transfers} change${option.transfers === 1 ? '' : 's'}`;
+  const price = option.price ? `, ${formatPrice(option.price.amount, language)}` : '';
+  const at = language === 'de' ? `ab ${formatTime(option.departure)}` : `departing ${formatTime(option.departure)}`;
+  return `${label} ${at} (${formatMinutes(option.durationMinutes, language)}, ${transfers}${price})`;
+}
+
+function progressMessage(stage: AssistantStage, language: Locale, from: string, to: string): string {
+  if (stage === 'resolving') {
+    return language === 'de' ? `Suche Bahnhöfe und Flughäfen für ${from} und ${to}...` : `Looking up stations and airports for ${from} and ${to}...`;
+  }
+  return language === 'de' ? `Suche Verbindungen von ${from} nach ${to}...` : `Searching connections from ${from} to ${to}...`;
+}
+
+function summarize(answer: Omit<AssistantAnswer, 'summary'>): string {
+  const { intent, from, to, date, options } = answer;
+  const de = intent.language === 'de';
+
+  switch (answer.status) {
+    case 'incomplete':
+      return de
+        ? 'Von wo nach wo möchtest du reisen? Zum Beispiel: „Morgen früh von Köln nach Berlin“.'
+        : 'Where would you like to travel from and to? For example: "from Cologne to Berlin tomorrow morning".';
+
+    case 'needs_clarification': {
+      const { input, alternatives } = answer.clarification!;
+      if (alternatives.length === 0) {
+        return de ? `Den Ort „${input}“ kenne ich leider nicht.` : `Sorry, I don't know the place "${input}".`;
+      }
+      const names = alternatives.map(place => place.name).join(', ');
+      return de ? `Welches „${input}“ meinst du: ${names}?` : `Which "${input}" do you mean: ${names}?`;
+    }
+
+    case 'no_results':
+      return de
+        ? `Ich habe keine passende Verbindung von ${from!.name} nach ${to!.name} am ${formatDate(date!, 'de')} gefunden.`
+        : `I couldn't find a matching connection from ${from!.name} to ${to!.name} on ${formatDate(date!, 'en')}.`;
+  }
+
+  const fastest = sortOptions(options, 'duration')[0];
+  const cheapest = options.some(option => option.price) ? sortOptions(options, 'price')[0] : undefined;
+  const count = de
+    ? `${options.length} Verbindung${options.length === 1 ? '' : 'en'} von ${from!.name} nach ${to!.name} am ${formatDate(date!, 'de')}.`
+    : `${options.length} connection${options.length === 1 ? '' : 's'} from ${from!.name} to ${to!.name} on ${formatDate(date!, 'en')}.`;
+
+  if (!cheapest || cheapest === fastest) {
+    const label = cheapest
+      ? (de ? 'Am schnellsten und günstigsten' : 'Fastest and cheapest')
+      : (de ? 'Am schnellsten' : 'Fastest');
+    return `${count} ${label}: ${describeOption(fastest, intent.language)}.`;
+  }
+  return de
+    ? `${count} Am schnellsten: ${describeOption(fastest, 'de')}. Am günstigsten: ${describeOption(cheapest, 'de')}.`
+    : `${count} Fastest: ${describeOption(fastest, 'en')}. Cheapest: ${describeOption(cheapest, 'en')}.`;
+}
+
+function answer(fields: Omit<AssistantAnswer, 'summary'>): AssistantAnswer {
+  return { ...fields, summary: summarize(fields) };
+}
+
+/**
+ * Drop options that don't fit the request
+ * Unpriced options are kept under a price limit - the fare may well be lower.
+ */
+function matchesIntent(option: ComparisonOption, intent: TripIntent, arriveBy?: string): boolean {
+  const modes = intent.modes.flatMap(mode => MODE_OPTIONS[mode]);
+  if (!modes.includes(option.mode)) return false;
+  // Only DB results are filtered by product, MOTIS may route via ICE
+  if (intent.deutschlandticket && option.source !== 'db') return false;
+  if (intent.maxTransfers !== undefined && option.transfers > intent.maxTransfers) return false;
+  if (intent.maxPrice !== undefined && option.price && option.price.amount > intent.maxPrice) return false;
+  // Flights are searched for the whole day
+  if (arriveBy && new Date(option.arrival).getTime() > new Date(arriveBy).getTime()) return false;
+  return true;
+}
+
+// ============ API Functions ============
+
+/**
+ * Answer a free-text trip request
+ * Missing or unknown places are answered with a follow-up question instead
+ * of an error, so the chat can continue.
+ */
+export async function answerQuery(text: string, { onEvent, signal }: AnswerOptions = {}): Promise<AssistantAnswer> {
+  const parser = getIntentParser();
+  const intent = await parser.parse(text, { today: today() });
+  signal?.throwIfAborted();
+
+  const missing = [
+    ...(intent.origin ? [] : ['origin' as const]),
+    ...(intent.destination ? [] : ['destination' as const]),
+  ];
+  if (missing.length > 0) {
+    return answer({ status: 'incomplete', parser: parser.name, intent, options: [], missing });
+  }
+
+  let from: ComparisonEndpoint;
+  let to: ComparisonEndpoint;
+  onEvent?.({
+    type: 'progress',
+    stage: 'resolving',
+    message: progressMessage('resolving', intent.language, intent.origin!, intent.destination!),
+  });
+  try {
+    [from, to] = await Promise.all([
+      resolveEndpoint(intent.origin!),
+      resolveEndpoint(intent.destination!),
+    ]);
+  } catch (error) {
+    if (error instanceof AmbiguousLocationError || error instanceof LocationNotFoundError) {
+      const alternatives = error instanceof AmbiguousLocationError
+        ? error.alternatives.map(place => ({ id: place.id, name: place.name, type: place.type }))
+        : [];
+      return answer({
+        status: 'needs_clarification',
+        parser: parser.name,
+        intent,
+        options: [],
+        clarification: { input: error.input, alternatives },
+      });
+    }
+    throw error;
+  }
+  signal?.throwIfAborted();
+
+  const date = intent.date ?? today();
+  const time = intent.time ?? (date === today() ? formatTime(Date.now()) : DEFAULT_TIME);
+  const arriveBy = intent.timeKind === 'arrival' && intent.time !== undefined;
+  const latestArrival = arriveBy ? toOffsetIso(`${date}T${time}`) : undefined;
+  const best = (found: ComparisonOption[]) => sortOptions(
+    found.filter(option => matchesIntent(option, intent, latestArrival)),
+    intent.sort
+  ).slice(0, MAX_OPTIONS);
+
+  onEvent?.({
+    type: 'progress',
+    stage: 'searching',
+    message: progressMessage('searching', intent.language, from.name, to.name),
+  });
+  const found: ComparisonOption[] = [];
+  const result = await compareConnections({
+    from,
+    to,
+    date,
+    time,
+    arriveBy,
+    modes: intent.modes.flatMap(mode => MODE_OPTIONS[mode]),
+    maxTransfers: intent.maxTransfers,
+    products: toProductFilter({ deutschlandticket: intent.deutschlandticket }),
+  }, (source, provider, providerOptions) => {
+    if (signal?.aborted) return;
+    found.push(...providerOptions);
+    onEvent?.({ type: 'results', source, provider, options: best(found) });
+  });
+  signal?.throwIfAborted();
+
+  const options = best(result.options);
+
+  return answer({
+    status: options.length > 0 ? 'ok' : 'no_results',
+    parser: parser.name,
+    intent,
+    from,
+    to,
+    date,
+    time,
+    options,
+    providers: result.providers,
+  });
+}
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cached, configureCache, InMemoryKv } from './cache';
+
+// Loader that returns its call count, so a cache hit returns an earlier count
+function counter() {
+  let calls = 0;
+  return vi.fn(async () => ++calls);
+}
+
+afterEach(() => {
+  configureCache({ backend: 'memory' });
+  vi.restoreAllMocks();
+});
+
+describe('cached', () => {
+  it('keeps equal keys of different endpoints apart', async () => {
+    configureCache({ backend: 'kv', kv: new InMemoryKv() });
+    const load = counter();
+
+    expect(await cached('db:stops', '8011160', load)).toBe(1);
+    expect(await cached('db:trips', '8011160', load)).toBe(2);
+    expect(await cached('db:stops', '8011160', load)).toBe(1);
+  });
+});
+
+describe('configureCache', () => {
+  it('falls back to the default size for an invalid CACHE_MAX_ENTRIES', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    configureCache({ backend: 'memory', maxEntries: Number('lots') });
+    const load = counter();
+
+    for (let i = 0; i <= 500; i++) await cached('db:stops', `stop-${i}`, load);
+
+    // The 501st entry evicted the first one
+    expect(await cached('db:stops', 'stop-0', load)).toBe(502);
+    expect(console.warn).toHaveBeenCalledWith('Invalid CACHE_MAX_ENTRIES NaN, using 500');
+  });
+
+  it('bounds the cache to a valid CACHE_MAX_ENTRIES', async () => {
+    configureCache({ backend: 'memory', maxEntries: 2 });
+    const load = counter();
+
+    await cached('db:stops', 'a', load);
+    await cached('db:stops', 'b', load);
+    await cached('db:stops', 'c', load);
+
+    expect(await cached('db:stops', 'c', load)).toBe(3);
+    expect(await cached('db:stops', 'a', load)).toBe(4);
+  });
+});
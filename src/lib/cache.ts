@@ -0,0 +1,255 @@
+/**
+ * Response Cache
+ * Shared cache for the DB and Amadeus clients with two backends:
+ * - memory: LRU map per isolate (default, good for local dev)
+ * - kv: Cloudflare Workers KV, shared across isolates and deploys
+ *
+ * Backend is chosen via CACHE_BACKEND ("memory" | "kv") and configured per
+ * request in src/middleware.ts, where the CACHE_KV binding is available.
+ * Without a binding the KV backend runs on an in-memory KV stand-in.
+ */
+
+// ============ Types ============
+
+export interface CacheStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<boolean>; // false if not stored
+}
+
+// Subset of the Workers KVNamespace API we rely on
+export interface KVNamespaceLike {
+  get(key: string, type: 'json'): Promise<unknown>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+}
+
+export interface CacheConfig {
+  backend: 'memory' | 'kv';
+  kv?: KVNamespaceLike;
+  maxEntries?: number;    // memory: LRU size limit
+  maxValueBytes?: number; // kv: larger values are not stored
+}
+
+export interface CacheCounters {
+  hits: number;
+  misses: number;
+  skipped: number; // values not stored because of size limits
+}
+
+interface CacheEntry {
+  data: unknown;
+  expires: number;
+}
+
+// ============ Config ============
+
+// TTL per upstream endpoint
+export const CACHE_TTLS = {
+  'db:locations': 60 * 60 * 1000,      // 1h, station names rarely change
+  'db:stops': 24 * 60 * 60 * 1000,     // 1 day
+  'db:departures': 30 * 1000,          // 30s for realtime data
+  'db:arrivals': 30 * 1000,
+  'db:journeys': 60 * 1000,            // 1 min
+  'db:refresh': 30 * 1000,
+  'db:trips': 30 * 1000,
+  'amadeus:locations': 24 * 60 * 60 * 1000,
+  'amadeus:flight-offers': 15 * 60 * 1000, // 15 min, saves the 2000 calls/month
+  'amadeus:flight-dates': 6 * 60 * 60 * 1000,
+} as const;
+
+export type CacheEndpoint = keyof typeof CACHE_TTLS;
+
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_MAX_VALUE_BYTES = 1024 * 1024; // 1 MB
+const KV_MIN_TTL_SECONDS = 60;               // Workers KV minimum expirationTtl
+
+// ============ Backends ============
+
+/**
+ * In-memory LRU cache, bounded by number of entries
+ */
+export class MemoryCache implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    if (entry.expires <= Date.now()) return undefined;
+
+    // Re-insert to mark as most recently used
+    this.entries.set(key, entry);
+    return entry.data as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<boolean> {
+    this.entries.delete(key);
+    this.entries.set(key, { data: value, expires: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+    return true;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Workers KV cache
+ * Stores the expiry next to the value, since KV only supports TTLs >= 60s
+ */
+export class KvCache implements CacheStore {
+  constructor(
+    private kv: KVNamespaceLike,
+    private maxValueBytes = DEFAULT_MAX_VALUE_BYTES
+  ) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = await this.kv.get(key, 'json') as CacheEntry | null;
+    if (!entry || entry.expires <= Date.now()) return undefined;
+    return entry.data as T;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<boolean> {
+    const body = JSON.stringify({ data: value, expires: Date.now() + ttlMs });
+    if (new TextEncoder().encode(body).length > this.maxValueBytes) {
+      return false;
+    }
+
+    await this.kv.put(key, body, {
+      expirationTtl: Math.max(KV_MIN_TTL_SECONDS, Math.ceil(ttlMs / 1000)),
+    });
+    return true;
+  }
+}
+
+/**
+ * In-memory stand-in for a KV namespace (local dev without wrangler)
+ */
+export class InMemoryKv implements KVNamespaceLike {
+  private values = new Map<string, { value: string; expires: number }>();
+
+  async get(key: string, _type: 'json'): Promise<unknown> {
+    const entry = this.values.get(key);
+    if (!entry || entry.expires <= Date.now()) return null;
+    return JSON.parse(entry.value);
+  }
+
+  async put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void> {
+    const ttl = options?.expirationTtl ? options.expirationTtl * 1000 : Infinity;
+    this.values.set(key, { value, expires: Date.now() + ttl });
+  }
+}
+
+// ============ Module State ============
+
+let store: CacheStore = new MemoryCache();
+let activeConfig: CacheConfig = { backend: 'memory' };
+let fallbackKv: InMemoryKv | null = null;
+
+const counters = new Map<CacheEndpoint, CacheCounters>();
+
+function countersFor(endpoint: CacheEndpoint): CacheCounters {
+  let entry = counters.get(endpoint);
+  if (!entry) {
+    entry = { hits: 0, misses: 0, skipped: 0 };
+    counters.set(endpoint, entry);
+  }
+  return entry;
+}
+
+// Values are stored per endpoint, so equal keys of different endpoints don't collide
+function cacheKey(endpoint: CacheEndpoint, key: string): string {
+  return `${endpoint}:${key}`;
+}
+
+// A non-numeric CACHE_MAX_ENTRIES parses to NaN, which would leave the LRU unbounded
+function validMaxEntries(maxEntries: number | undefined): number | undefined {
+  if (maxEntries === undefined || (Number.isInteger(maxEntries) && maxEntries > 0)) {
+    return maxEntries;
+  }
+  return DEFAULT_MAX_ENTRIES;
+}
+
+// ============ API Functions ============
+
+/**
+ * Select the cache backend
+ * Keeps the current store if the config did not change
+ */
+export function configureCache(requested: CacheConfig): void {
+  const config = { ...requested, maxEntries: validMaxEntries(requested.maxEntries) };
+  if (
+    config.backend === activeConfig.backend &&
+    config.kv === activeConfig.kv &&
+    config.maxEntries === activeConfig.maxEntries &&
+    config.maxValueBytes === activeConfig.maxValueBytes
+  ) {
+    return;
+  }
+
+  if (config.backend === 'kv') {
+    if (!config.kv) {
+      console.warn('CACHE_BACKEND=kv without CACHE_KV binding, using in-memory KV stand-in');
+      fallbackKv ??= new InMemoryKv();
+    }
+    store = new KvCache(config.kv ?? fallbackKv!, config.maxValueBytes);
+  } else {
+    if (config.maxEntries !== requested.maxEntries) {
+      console.warn(`Invalid CACHE_MAX_ENTRIES ${requested.maxEntries}, using ${DEFAULT_MAX_ENTRIES}`);
+    }
+    store = new MemoryCache(config.maxEntries);
+  }
+  activeConfig = config;
+}
+
+/**
+ * Return a cached value or load and store it with the endpoint's TTL
+ * Cache failures never fail the request, they are treated as misses
+ */
+export async function cached<T>(
+  endpoint: CacheEndpoint,
+  key: string,
+  load: () => Promise<T>
+): Promise<T> {
+  const stats = countersFor(endpoint);
+
+  const hit = await store.get<T>(cacheKey(endpoint, key)).catch(error => {
+    console.error('Cache read error:', error);
+    return undefined;
+  });
+  if (hit !== undefined) {
+    stats.hits++;
+    return hit;
+  }
+
+  stats.misses++;
+  const data = await load();
+
+  const stored = await store.set(cacheKey(endpoint, key), data, CACHE_TTLS[endpoint]).catch(error => {
+    console.error('Cache write error:', error);
+    return false;
+  });
+  if (!stored) stats.skipped++;
+
+  return data;
+}
+
+/**
+ * Hit/miss counters per endpoint since isolate start
+ */
+export function getCacheStats(): {
+  backend: CacheConfig['backend'];
+  endpoints: Partial<Record<CacheEndpoint, CacheCounters>>;
+} {
+  return {
+    backend: activeConfig.backend,
+    endpoints: Object.fromEntries(counters) as Partial<Record<CacheEndpoint, CacheCounters>>,
+  };
+}
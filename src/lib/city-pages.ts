@@ -0,0 +1,113 @@
+/**
+ * City Pages
+ * Groups the pois collection by city for /staedte: the POIs with their
+ * nearest main station, the city's main station for the live board and the
+ * routes that start or end in the city.
+ */
+
+import type { CollectionEntry } from 'astro:content';
+import {
+  getCityMainStation,
+  nearestMainStation,
+  normalizePlaceName,
+  type StationRef,
+} from './locations';
+
+// ============ Types ============
+
+export interface CityPoi {
+  slug: CollectionEntry<'pois'>['slug'];
+  title: string;
+  description: string;
+  categories: string[];
+  latitude: number;
+  longitude: number;
+  nearestStation: StationRef | null;
+}
+
+export interface CityRoute {
+  slug: string;
+  from: string;
+  to: string;
+  priceRange: string;
+}
+
+export interface CityPage {
+  slug: string; // e.g. "muenchen"
+  name: string;
+  region: string;
+  mainStation: { id: string; name: string } | null; // null for cities outside the city table
+  categories: string[]; // of all POIs, most frequent first
+  pois: CityPoi[];
+  routes: CityRoute[];
+}
+
+// ============ Helpers ============
+
+/**
+ * URL slug for a city, "Frankfurt am Main" → "frankfurt-am-main"
+ * Built on the place lookup's normalization, so slugs and lookup agree.
+ */
+export function citySlug(name: string): string {
+  return normalizePlaceName(name).replace(/ /g, '-');
+}
+
+function toPoi(entry: CollectionEntry<'pois'>): CityPoi {
+  const { lat, lon } = entry.data.coordinates;
+  return {
+    slug: entry.slug,
+    title: entry.data.title,
+    description: entry.data.description,
+    categories: entry.data.category,
+    latitude: lat,
+    longitude: lon,
+    nearestStation: nearestMainStation(lat, lon),
+  };
+}
+
+function byFrequency(values: string[]): string[] {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  return [...counts.keys()].sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b, 'de'));
+}
+
+// ============ API Functions ============
+
+/**
+ * One page per city that has POIs, sorted by name
+ */
+export function buildCityPages(
+  pois: CollectionEntry<'pois'>[],
+  routes: CollectionEntry<'routes'>[]
+): CityPage[] {
+  const byCity = new Map<string, CollectionEntry<'pois'>[]>();
+  for (const poi of pois) {
+    const key = normalizePlaceName(poi.data.city);
+    byCity.set(key, [...(byCity.get(key) ?? []), poi]);
+  }
+
+  return [...byCity.entries()]
+    .map(([key, entries]) => {
+      const { city: name, region } = entries[0].data;
+      const cityPois = entries.map(toPoi).sort((a, b) => a.title.localeCompare(b.title, 'de'));
+
+      return {
+        slug: citySlug(name),
+        name,
+        region,
+        mainStation: getCityMainStation(name),
+        categories: byFrequency(cityPois.flatMap(poi => poi.categories)),
+        pois: cityPois,
+        routes: routes
+          .filter(route => [route.data.from, route.data.to].some(city => normalizePlaceName(city) === key))
+          .map(route => ({
+            slug: route.slug,
+            from: route.data.from,
+            to: route.data.to,
+            priceRange: route.data.priceRange,
+          }))
+          .sort((a, b) => a.from.localeCompare(b.from, 'de') || a.to.localeCompare(b.to, 'de')),
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name, 'de'));
+}
@@ -0,0 +1,53 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { compareConnections } from './compare';
+import { searchFlights, transformFlightOffer } from './amadeus-flights';
+import { configureProviders } from './mock-providers';
+import { toOffsetIso, toZonedIso } from './time';
+
+const date = toZonedIso(Date.now() + 7 * 24 * 60 * 60 * 1000).slice(0, 10);
+const from = { name: 'Berlin', airport: 'BER' };
+const to = { name: 'München', airport: 'MUC' };
+
+beforeAll(() => {
+  configureProviders({ mock: true });
+});
+
+afterAll(() => {
+  configureProviders({ mock: false });
+});
+
+describe('compareConnections', () => {
+  it('only offers flights leaving after the requested time', async () => {
+    const day = await searchFlights({ origin: 'BER', destination: 'MUC', departureDate: date, maxResults: 20 });
+    const departures = day.data.map(offer => transformFlightOffer(offer).departure.time).sort();
+    const middle = departures[Math.floor(departures.length / 2)];
+    const time = toZonedIso(middle).slice(11, 16);
+    expect(departures[0] < middle).toBe(true);
+
+    const { options } = await compareConnections({ from, to, date, time, modes: ['flight'] });
+    expect(options.length).toBeGreaterThan(0);
+    for (const option of options) {
+      expect(Date.parse(option.departure)).toBeGreaterThanOrEqual(Date.parse(toOffsetIso(`${date}T${time}`)));
+    }
+  });
+
+  it('only offers flights landing before an arrive-by time', async () => {
+    const { options } = await compareConnections({ from, to, date, time: '12:00', arriveBy: true, modes: ['flight'] });
+    for (const option of options) {
+      expect(Date.parse(option.arrival)).toBeLessThanOrEqual(Date.parse(toOffsetIso(`${date}T12:00`)));
+    }
+  });
+
+  it('keeps train option IDs when a later search returns the same journey', async () => {
+    const stations = { from: { ...from, stopId: '8011160' }, to: { ...to, stopId: '8000261' } };
+    const first = await compareConnections({ ...stations, date, time: '08:00', modes: ['train'] });
+    const byDeparture = (options: typeof first.options) => options.slice().sort((a, b) => a.departure.localeCompare(b.departure));
+    const [, second] = byDeparture(first.options);
+
+    // Searching from the second journey's departure returns it first
+    const later = await compareConnections({ ...stations, date, time: toZonedIso(second.departure).slice(11, 16), modes: ['train'] });
+    const same = later.options.find(option => option.departure === second.departure && option.lines.join() === second.lines.join());
+
+    expect(same?.id).toBe(second.id);
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Multimodal Comparison
+ * Fans out one from/to/date request to DB (findJourneys), Amadeus (searchFlights)
+ * and MOTIS (planConnections) and merges the results into one normalized list.
+ *
+ * Each provider is queried independently - a failing provider only shows up
+ * in its status, the other results are still returned.
+ */
+
+import {
+  findJourneys,
+  getJourneyDuration,
+  getJourneyId,
+  getTransferCount,
+  formatDuration,
+  type Journey,
+  type ProductFilter,
+} from './db-transport';
+import {
+  searchFlights,
+  isAmadeusConfigured,
+  transformFlightOffer,
+} from './amadeus-flights';
+import { withAirportAccess, type DoorToDoorFlight } from './airport-access';
+import {
+  planConnections,
+  isBusItinerary,
+  type MotisItinerary,
+} from './motis';
+import { resolveUniquePlace, getRoutingStation } from './locations';
+import { isMockMode } from './mock-providers';
+import { toOffsetIso, toZonedIso } from './time';
+
+// ============ Types ============
+
+export type ComparisonMode = 'train' | 'flight' | 'bus' | 'transit';
+export type ComparisonSource = 'db' | 'amadeus' | 'motis';
+
+export interface ComparisonOption {
+  id: string;
+  mode: ComparisonMode;
+  source: ComparisonSource;
+  departure: string;
+  arrival: string;
+  duration: string;
+  durationMinutes: number; // door-to-door
+  transfers: number;
+  price: { amount: number; currency: string } | null;
+  lines: string[];
+}
+
+export interface ProviderStatus {
+  status: 'ok' | 'error' | 'skipped';
+  count: number;
+  message?: string;
+}
+
+export interface ComparisonEndpoint {
+  name: string;
+  stopId?: string;      // DB station ID
+  coordinates?: string; // "lat,lon" for MOTIS
+  airport?: string;     // IATA code
+}
+
+export interface ComparisonRequest {
+  from: ComparisonEndpoint;
+  to: ComparisonEndpoint;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm, Europe/Berlin
+  arriveBy?: boolean;         // time is the latest arrival instead of the earliest departure
+  modes?: ComparisonMode[];   // providers that can't return any of these are skipped
+  maxTransfers?: number;      // passed to DB; other providers are not filtered
+  products?: ProductFilter;   // DB product filter, e.g. for the Deutschlandticket
+}
+
+export interface ComparisonResult {
+  options: ComparisonOption[];
+  providers: Record<ComparisonSource, ProviderStatus>;
+}
+
+// Called as soon as each provider has answered, for streaming partial results
+export type ProviderCallback = (source: ComparisonSource, status: ProviderStatus, options: ComparisonOption[]) => void;
+
+class ProviderSkipped extends Error {}
+
+// Flights are searched for the whole day and filtered by time afterwards
+const FLIGHT_SEARCH_RESULTS = 20;
+const MAX_FLIGHTS = 5;
+
+// Modes each provider can return
+const PROVIDER_MODES: Record<ComparisonSource, ComparisonMode[]> = {
+  db: ['train', 'bus'],
+  amadeus: ['flight'],
+  motis: ['transit', 'bus'],
+};
+
+// ============ Normalizers ============
+
+function normalizeJourney(journey: Journey): ComparisonOption {
+  const firstLeg = journey.legs[0];
+  const lastLeg = journey.legs[journey.legs.length - 1];
+  const transportLegs = journey.legs.filter(leg => !leg.walking && leg.line);
+  const busOnly = transportLegs.length > 0 && transportLegs.every(leg => leg.line?.mode === 'bus');
+  const durationMinutes = getJourneyDuration(journey);
+
+  return {
+    id: `db-${getJourneyId(journey)}`, // stable across requests and sort orders
+    mode: busOnly ? 'bus' : 'train',
+    source: 'db',
+    departure: firstLeg.departure,
+    arrival: lastLeg.arrival,
+    duration: formatDuration(durationMinutes),
+    durationMinutes,
+    transfers: getTransferCount(journey),
+    price: journey.price ? { amount: journey.price.amount, currency: journey.price.currency } : null,
+    lines: transportLegs.map(leg => leg.line!.name),
+  };
+}
+
+function normalizeFlight(flight: DoorToDoorFlight): ComparisonOption {
+  return {
+    id: `amadeus-${flight.id}`,
+    mode: 'flight',
+    source: 'amadeus',
+    departure: flight.doorToDoorDeparture,
+    arrival: flight.doorToDoorArrival,
+    duration: formatDuration(flight.doorToDoorMinutes),
+    durationMinutes: flight.doorToDoorMinutes,
+    transfers: flight.stops,
+    price: { amount: flight.price, currency: flight.currency },
+    lines: flight.segments?.map(seg => seg.flightNumber) ?? [flight.flightNumber],
+  };
+}
+
+function normalizeItinerary(itinerary: MotisItinerary, index: number): ComparisonOption {
+  const durationMinutes = Math.round(itinerary.duration / 60);
+
+  return {
+    id: `motis-${index}`,
+    mode: isBusItinerary(itinerary) ? 'bus' : 'transit',
+    source: 'motis',
+    departure: toZonedIso(itinerary.startTime),
+    arrival: toZonedIso(itinerary.endTime),
+    duration: formatDuration(durationMinutes),
+    durationMinutes,
+    transfers: itinerary.transfers,
+    price: null,
+    lines: itinerary.legs
+      .filter(leg => leg.mode !== 'WALK')
+      .map(leg => leg.routeShortName || leg.mode),
+  };
+}
+
+// ============ Providers ============
+
+function skipUnwantedModes(request: ComparisonRequest, source: ComparisonSource): void {
+  if (request.modes && !PROVIDER_MODES[source].some(mode => request.modes!.includes(mode))) {
+    throw new ProviderSkipped('Verkehrsmittel nicht gewünscht');
+  }
+}
+
+async function compareTrains(request: ComparisonRequest): Promise<ComparisonOption[]> {
+  skipUnwantedModes(request, 'db');
+  if (!request.from.stopId || !request.to.stopId) {
+    throw new ProviderSkipped('Keine DB-Station gefunden');
+  }
+
+  const time = toOffsetIso(`${request.date}T${request.time}`);
+  const response = await findJourneys(request.from.stopId, request.to.stopId, {
+    departure: request.arriveBy ? undefined : time,
+    arrival: request.arriveBy ? time : undefined,
+    results: 5,
+    transfers: request.maxTransfers,
+    tickets: true,
+    ...request.products,
+  });
+
+  return response.journeys.map(normalizeJourney);
+}
+
+async function compareFlights(request: ComparisonRequest): Promise<ComparisonOption[]> {
+  skipUnwantedModes(request, 'amadeus');
+  if (!isAmadeusConfigured() && !isMockMode()) {
+    throw new ProviderSkipped('Amadeus API not configured');
+  }
+  if (!request.from.airport || !request.to.airport || request.from.airport === request.to.airport) {
+    throw new ProviderSkipped('Kein Flughafen für diese Strecke');
+  }
+
+  const response = await searchFlights({
+    origin: request.from.airport,
+    destination: request.to.airport,
+    departureDate: request.date,
+    maxResults: FLIGHT_SEARCH_RESULTS,
+  });
+
+  // Amadeus has no time filter, so drop flights leaving before (or landing after) the
+  // requested time - first by air time, then door-to-door once the rail legs are known
+  const time = Date.parse(toOffsetIso(`${request.date}T${request.time}`));
+  const inTime = (departure: string, arrival: string) => request.arriveBy
+    ? Date.parse(arrival) <= time
+    : Date.parse(departure) >= time;
+
+  const candidates = response.data
+    .map(offer => transformFlightOffer(offer, response.dictionaries?.carriers))
+    .filter(flight => inTime(flight.departure.time, flight.arrival.time))
+    .slice(0, MAX_FLIGHTS);
+
+  const flights = await Promise.all(candidates.map(withAirportAccess));
+  return flights.map(normalizeFlight).filter(option => inTime(option.departure, option.arrival));
+}
+
+async function compareTransit(request: ComparisonRequest): Promise<ComparisonOption[]> {
+  skipUnwantedModes(request, 'motis');
+  if (!request.from.coordinates || !request.to.coordinates) {
+    throw new ProviderSkipped('Keine Koordinaten verfügbar');
+  }
+
+  const response = await planConnections(request.from.coordinates, request.to.coordinates, {
+    time: toOffsetIso(`${request.date}T${request.time}`),
+    arriveBy: request.arriveBy,
+  });
+
+  return (response.itineraries ?? []).slice(0, 5).map(normalizeItinerary);
+}
+
+// ============ API Functions ============
+
+/**
+ * Resolve user input to the station, coordinates and airport of a place
+ */
+export async function resolveEndpoint(input: string): Promise<ComparisonEndpoint> {
+  const place = await resolveUniquePlace(input);
+  const station = await getRoutingStation(place);
+
+  return {
+    name: place.name,
+    stopId: station?.id,
+    coordinates: `${place.latitude},${place.longitude}`,
+    airport: place.iataCode ?? place.airports[0]?.iataCode,
+  };
+}
+
+/**
+ * Query all providers in parallel and merge their options
+ */
+export async function compareConnections(
+  request: ComparisonRequest,
+  onProvider?: ProviderCallback
+): Promise<ComparisonResult> {
+  const searches: Record<ComparisonSource, (request: ComparisonRequest) => Promise<ComparisonOption[]>> = {
+    db: compareTrains,
+    amadeus: compareFlights,
+    motis: compareTransit,
+  };
+  const sources = Object.keys(searches) as ComparisonSource[];
+
+  const settled = await Promise.all(sources.map(async (source) => {
+    let options: ComparisonOption[] = [];
+    let status: ProviderStatus;
+    try {
+      options = await searches[source](request);
+      status = { status: 'ok', count: options.length };
+    } catch (error) {
+      if (error instanceof ProviderSkipped) {
+        status = { status: 'skipped', count: 0, message: error.message };
+      } else {
+        console.error(`Compare provider ${source} failed:`, error);
+        status = {
+          status: 'error',
+          count: 0,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+    onProvider?.(source, status, options);
+    return { options, status };
+  }));
+
+  const providers = {} as Record<ComparisonSource, ProviderStatus>;
+  sources.forEach((source, i) => {
+    providers[source] = settled[i].status;
+  });
+
+  return { options: sortOptions(settled.flatMap(result => result.options), 'duration'), providers };
+}
+
+/**
+ * Sort options by duration, price or departure time
+ * Options without price are sorted last when sorting by price
+ */
+export function sortOptions(
+  options: ComparisonOption[],
+  by: 'duration' | 'price' | 'departure'
+): ComparisonOption[] {
+  return [...options].sort((a, b) => {
+    if (by === 'price') {
+      return (a.price?.amount ?? Infinity) - (b.price?.amount ?? Infinity);
+    }
+    if (by === 'departure') {
+      return new Date(a.departure).getTime() - new Date(b.departure).getTime();
+    }
+    return a.durationMinutes - b.durationMinutes;
+  });
+}
@@ -5,34 +5,48 @@
  * Rate Limit: 100 requests/minute
  * No API key required
  * CORS enabled
+ * 
+ * With MOCK_PROVIDERS=true all calls are answered by ./mock-providers
  */
 
+import { cached, type CacheEndpoint } from './cache';
+import {
+  TokenBucket,
+  coalesce,
+  fetchWithRetry,
+} from './rate-limit';
+import {
+  isMockMode,
+  mockLocations,
+  mockStop,
+  mockDepartures,
+  mockArrivals,
+  mockJourneys,
+  mockRefreshJourney,
+  mockTrip,
+} from './mock-providers';
+
 const DB_API_BASE = 'https://v6.db.transport.rest';
 
-// Simple in-memory cache
-const cache = new Map<string, { data: unknown; expires: number }>();
-const CACHE_TTL = 60 * 1000; // 1 minute
+// 100 requests/minute per isolate
+const limiter = new TokenBucket(100, 60 * 1000);
+const MAX_QUEUE_WAIT_MS = 5 * 1000;
 
-async function fetchWithCache<T>(url: string, ttl = CACHE_TTL): Promise<T> {
-  const cached = cache.get(url);
-  if (cached && cached.expires > Date.now()) {
-    return cached.data as T;
-  }
-  
-  const response = await fetch(url, {
-    headers: {
-      'Accept': 'application/json',
-      'User-Agent': 'dzt-tourism-platform/0.1.0'
-    }
-  });
-  
-  if (!response.ok) {
-    throw new Error(`DB API Error: ${response.status} ${response.statusText}`);
-  }
-  
-  const data = await response.json();
-  cache.set(url, { data, expires: Date.now() + ttl });
-  return data as T;
+// Chained via searches cost one request per segment and journey
+const MAX_CHAINED_JOURNEYS = 3;
+const VIA_TRANSFER_MINUTES = 5; // change time at via stations without transferTime
+
+async function fetchWithCache<T>(url: string, endpoint: CacheEndpoint): Promise<T> {
+  return cached(endpoint, url, () => coalesce(url, async () => {
+    const response = await fetchWithRetry(url, {
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'dzt-tourism-platform/0.1.0'
+      }
+    }, { upstream: 'DB API', limiter, maxQueueWaitMs: MAX_QUEUE_WAIT_MS });
+    
+    return response.json() as Promise<T>;
+  }));
 }
 
 // ============ Types (FPTF Format) ============
@@ -74,6 +88,33 @@ export interface Line {
   operator?: { id: string; name: string };
 }
 
+export interface Remark {
+  type: string; // "hint", "warning", "status"
+  id?: string;
+  code?: string;  // hints and status, e.g. "FB" for bicycles
+  text?: string;
+  summary?: string;
+  priority?: number;
+  validFrom?: string; // warnings only
+  validUntil?: string;
+}
+
+export interface Stopover {
+  stop: Stop;
+  arrival: string | null;
+  plannedArrival: string | null;
+  arrivalDelay?: number | null;
+  arrivalPlatform?: string | null;
+  plannedArrivalPlatform?: string | null;
+  departure: string | null;
+  plannedDeparture: string | null;
+  departureDelay?: number | null;
+  departurePlatform?: string | null;
+  plannedDeparturePlatform?: string | null;
+  cancelled?: boolean;
+  remarks?: Remark[];
+}
+
 export interface Leg {
   tripId?: string;
   origin: Stop;
@@ -85,11 +126,16 @@ export interface Leg {
   plannedArrival: string;
   arrivalDelay?: number | null;
   departurePlatform?: string | null;
+  plannedDeparturePlatform?: string | null;
   arrivalPlatform?: string | null;
+  plannedArrivalPlatform?: string | null;
   line?: Line;
   direction?: string;
   walking?: boolean;
   distance?: number;
+  cancelled?: boolean;
+  stopovers?: Stopover[];
+  remarks?: Remark[];
 }
 
 export interface Journey {
@@ -99,6 +145,11 @@ export interface Journey {
   price?: { amount: number; currency: string };
 }
 
+export interface RefreshJourneyResponse {
+  journey: Journey;
+  realtimeDataUpdatedAt?: number;
+}
+
 export interface JourneysResponse {
   earlierRef?: string;
   laterRef?: string;
@@ -116,7 +167,7 @@ export interface Departure {
   delay: number | null;
   platform: string | null;
   plannedPlatform: string | null;
-  remarks?: Array<{ type: string; text?: string; summary?: string }>;
+  remarks?: Remark[];
 }
 
 export interface DeparturesResponse {
@@ -124,6 +175,91 @@ export interface DeparturesResponse {
   realtimeDataUpdatedAt?: number;
 }
 
+export interface Arrival extends Omit<Departure, 'direction'> {
+  provenance: string | null; // where the train comes from
+}
+
+export interface ArrivalsResponse {
+  arrivals: Arrival[];
+  realtimeDataUpdatedAt?: number;
+}
+
+// A single train run, from /trips/:id
+export interface Trip extends Omit<Leg, 'tripId'> {
+  id: string;
+  stopovers: Stopover[];
+  currentLocation?: Location; // realtime position, where DB reports one
+  remarks?: Remark[];
+}
+
+export interface TripResponse {
+  trip: Trip;
+  realtimeDataUpdatedAt?: number;
+}
+
+// Product filters supported by departures, arrivals and journeys
+export type ProductFilter = Pick<Products,
+  'nationalExpress' | 'national' | 'regionalExp' | 'regional' | 'suburban' | 'bus'>;
+
+export const PRODUCT_FILTER_KEYS: Array<keyof ProductFilter> = [
+  'nationalExpress', 'national', 'regionalExp', 'regional', 'suburban', 'bus',
+];
+
+// Long-distance products (ICE, IC/EC) are not covered by the Deutschlandticket
+export const DEUTSCHLANDTICKET_EXCLUDED: Array<keyof ProductFilter> = ['nationalExpress', 'national'];
+
+// ============ Remarks ============
+
+export type RemarkCategory =
+  | 'hint'
+  | 'warning'
+  | 'cancellation'
+  | 'replacement_service'
+  | 'accessibility'
+  | 'bike_carriage';
+
+export type RemarkSeverity = 'info' | 'minor' | 'major' | 'critical';
+
+// A remark classified for display, see classifyRemark()
+export interface TransportRemark {
+  category: RemarkCategory;
+  severity: RemarkSeverity;
+  code?: string;
+  summary: string;
+  text?: string;
+  validFrom?: string;
+  validUntil?: string;
+}
+
+// Least to most severe
+export const REMARK_SEVERITIES: RemarkSeverity[] = ['info', 'minor', 'major', 'critical'];
+
+// HAFAS remark codes with a known meaning
+const REMARK_CODES: Record<string, RemarkCategory> = {
+  FB: 'bike_carriage',  // Fahrradmitnahme begrenzt möglich
+  FK: 'bike_carriage',  // Fahrradmitnahme reservierungspflichtig
+  FR: 'bike_carriage',  // Fahrradmitnahme reservierungspflichtig
+  RO: 'accessibility',  // Rollstuhlstellplatz
+  EA: 'accessibility',  // Behindertengerechte Ausstattung
+  EH: 'accessibility',  // Fahrzeuggebundene Einstiegshilfe
+  OA: 'accessibility',  // Einstiegshilfe bei Bedarf
+  'text.realtime.journey.cancelled': 'cancellation',
+  'text.realtime.stop.cancelled': 'cancellation',
+};
+
+// Remarks without a known code are classified by their text, first match wins
+const REMARK_PATTERNS: Array<[RemarkCategory, RegExp]> = [
+  ['cancellation', /fällt aus|entfällt|ausfall|cancel/i],
+  ['replacement_service', /ersatzverkehr|\bSEV\b|ersatzzug|ersatzfahrt|ersatzbus|replacement/i],
+  ['accessibility', /rollstuhl|barrierefrei|einstiegshilfe|aufzug|wheelchair|accessib|elevator/i],
+  ['bike_carriage', /fahrrad|bicycle|bike/i],
+];
+
+const CATEGORY_SEVERITY: Partial<Record<RemarkCategory, RemarkSeverity>> = {
+  cancellation: 'critical',
+  replacement_service: 'major',
+};
+
 // ============ API Functions ============
 
 /**
@@ -135,6 +271,8 @@ export async function searchLocations(query: string, options?: {
   addresses?: boolean;
   poi?: boolean;
 }): Promise<Stop[]> {
+  if (isMockMode()) return mockLocations(query, options);
+  
   const params = new URLSearchParams({
     query,
     results: String(options?.results ?? 10),
@@ -143,14 +281,15 @@ export async function searchLocations(query: string, options?: {
     poi: String(options?.poi ?? false),
   });
   
-  return fetchWithCache<Stop[]>(`${DB_API_BASE}/locations?${params}`);
+  return fetchWithCache<Stop[]>(`${DB_API_BASE}/locations?${params}`, 'db:locations');
 }
 
 /**
  * Get a specific stop by ID
  */
 export async function getStop(stopId: string): Promise<Stop> {
-  return fetchWithCache<Stop>(`${DB_API_BASE}/stops/${encodeURIComponent(stopId)}`);
+  if (isMockMode()) return mockStop(stopId);
+  return fetchWithCache<Stop>(`${DB_API_BASE}/stops/${encodeURIComponent(stopId)}`, 'db:stops');
 }
 
 /**
@@ -167,6 +306,8 @@ export async function getDepartures(stopId: string, options?: {
   suburban?: boolean;
   bus?: boolean;
 }): Promise<DeparturesResponse> {
+  if (isMockMode()) return mockDepartures(stopId, options);
+  
   const params = new URLSearchParams();
   
   if (options?.when) {
@@ -187,7 +328,7 @@ export async function getDepartures(stopId: string, options?: {
   const queryString = params.toString() ? `?${params}` : '';
   return fetchWithCache<DeparturesResponse>(
     `${DB_API_BASE}/stops/${encodeURIComponent(stopId)}/departures${queryString}`,
-    30 * 1000 // 30s cache for realtime data
+    'db:departures'
   );
 }
 
@@ -198,7 +339,15 @@ export async function getArrivals(stopId: string, options?: {
   when?: string | Date;
   duration?: number;
   results?: number;
-}): Promise<DeparturesResponse> {
+  nationalExpress?: boolean;
+  national?: boolean;
+  regionalExp?: boolean;
+  regional?: boolean;
+  suburban?: boolean;
+  bus?: boolean;
+}): Promise<ArrivalsResponse> {
+  if (isMockMode()) return mockArrivals(stopId, options);
+  
   const params = new URLSearchParams();
   
   if (options?.when) {
@@ -208,10 +357,18 @@ export async function getArrivals(stopId: string, options?: {
   if (options?.duration) params.set('duration', String(options.duration));
   if (options?.results) params.set('results', String(options.results));
   
+  // Product filters
+  if (options?.nationalExpress !== undefined) params.set('nationalExpress', String(options.nationalExpress));
+  if (options?.national !== undefined) params.set('national', String(options.national));
+  if (options?.regionalExp !== undefined) params.set('regionalExp', String(options.regionalExp));
+  if (options?.regional !== undefined) params.set('regional', String(options.regional));
+  if (options?.suburban !== undefined) params.set('suburban', String(options.suburban));
+  if (options?.bus !== undefined) params.set('bus', String(options.bus));
+  
   const queryString = params.toString() ? `?${params}` : '';
-  return fetchWithCache<DeparturesResponse>(
+  return fetchWithCache<ArrivalsResponse>(
     `${DB_API_BASE}/stops/${encodeURIComponent(stopId)}/arrivals${queryString}`,
-    30 * 1000
+    'db:arrivals'
   );
 }
 
@@ -233,18 +390,26 @@ export async function findJourneys(from: string, to: string, options?: {
   suburban?: boolean;
   bus?: boolean;
   tickets?: boolean;
+  earlierThan?: string;      // earlierRef of a previous response
+  laterThan?: string;        // laterRef of a previous response
 }): Promise<JourneysResponse> {
+  if (isMockMode()) return mockJourneys(from, to, options);
+  
   const params = new URLSearchParams({
     from,
     to,
   });
   
   if (options?.via) params.set('via', options.via);
-  if (options?.departure) {
+  
+  // Paging refs replace departure/arrival
+  if (options?.earlierThan) params.set('earlierThan', options.earlierThan);
+  if (options?.laterThan) params.set('laterThan', options.laterThan);
+  if (options?.departure && !options.earlierThan && !options.laterThan) {
     const dep = options.departure instanceof Date ? options.departure.toISOString() : options.departure;
     params.set('departure', dep);
   }
-  if (options?.arrival) {
+  if (options?.arrival && !options.earlierThan && !options.laterThan) {
     const arr = options.arrival instanceof Date ? options.arrival.toISOString() : options.arrival;
     params.set('arrival', arr);
   }
@@ -264,22 +429,170 @@ export async function findJourneys(from: string, to: string, options?: {
   
   return fetchWithCache<JourneysResponse>(
     `${DB_API_BASE}/journeys?${params}`,
-    60 * 1000 // 1 min cache
+    'db:journeys'
   );
 }
 
+/**
+ * Find journeys through several via stations
+ * The DB API accepts a single via, so longer routes are chained segment by
+ * segment: each segment departs after the previous one arrives (arrive-by
+ * searches are chained backwards from the destination). Chained journeys
+ * have no paging refs, price or refresh token.
+ */
+export async function findJourneysVia(stops: string[], options?: {
+  departure?: string | Date;
+  arrival?: string | Date;
+  results?: number;
+  stopovers?: boolean;
+  transfers?: number;
+  transferTime?: number;
+  nationalExpress?: boolean;
+  national?: boolean;
+  regionalExp?: boolean;
+  regional?: boolean;
+  suburban?: boolean;
+  bus?: boolean;
+  earlierThan?: string;      // only with up to one via
+  laterThan?: string;
+}): Promise<JourneysResponse> {
+  const segments = stops.slice(1).map((to, i) => [stops[i], to] as const);
+  if (segments.length <= 2) {
+    // Up to one via fits into a single request
+    return findJourneys(stops[0], stops[stops.length - 1], {
+      ...options,
+      via: segments.length === 2 ? stops[1] : undefined,
+    });
+  }
+  
+  const arriveBy = !!options?.arrival;
+  const [first, ...rest] = arriveBy ? [...segments].reverse() : segments;
+  const changeMinutes = options?.transferTime ?? VIA_TRANSFER_MINUTES;
+  
+  const firstResponse = await findJourneys(first[0], first[1], {
+    ...options,
+    results: Math.min(options?.results ?? MAX_CHAINED_JOURNEYS, MAX_CHAINED_JOURNEYS),
+  });
+  
+  const chained = await Promise.all(firstResponse.journeys.map(async (journey) => {
+    let legs = journey.legs;
+    for (const [from, to] of rest) {
+      const boundary = arriveBy
+        ? shiftTime(legs[0].departure, -changeMinutes)
+        : shiftTime(legs[legs.length - 1].arrival, changeMinutes);
+      const response = await findJourneys(from, to, {
+        ...options,
+        departure: arriveBy ? undefined : boundary,
+        arrival: arriveBy ? boundary : undefined,
+        results: 1,
+      });
+      const next = arriveBy
+        ? response.journeys[response.journeys.length - 1]
+        : response.journeys[0];
+      if (!next) return null;
+      legs = arriveBy ? [...next.legs, ...legs] : [...legs, ...next.legs];
+    }
+    return { type: 'journey', legs } as Journey;
+  }));
+  
+  return {
+    journeys: chained.filter((journey): journey is Journey => journey !== null),
+    realtimeDataUpdatedAt: firstResponse.realtimeDataUpdatedAt,
+  };
+}
+
 /**
  * Refresh a journey to get updated realtime data
  */
-export async function refreshJourney(refreshToken: string): Promise<Journey> {
-  return fetchWithCache<Journey>(
-    `${DB_API_BASE}/journeys/${encodeURIComponent(refreshToken)}`,
-    30 * 1000
+export async function refreshJourney(refreshToken: string, options?: {
+  stopovers?: boolean;
+  tickets?: boolean;
+}): Promise<RefreshJourneyResponse> {
+  if (isMockMode()) return mockRefreshJourney(refreshToken);
+  
+  const params = new URLSearchParams();
+  if (options?.stopovers !== undefined) params.set('stopovers', String(options.stopovers));
+  if (options?.tickets !== undefined) params.set('tickets', String(options.tickets));
+  
+  const queryString = params.toString() ? `?${params}` : '';
+  return fetchWithCache<RefreshJourneyResponse>(
+    `${DB_API_BASE}/journeys/${encodeURIComponent(refreshToken)}${queryString}`,
+    'db:refresh'
+  );
+}
+
+/**
+ * Get a trip with all its stopovers
+ * tripId comes from a departure, arrival or journey leg
+ */
+export async function getTrip(tripId: string): Promise<TripResponse> {
+  if (isMockMode()) return mockTrip(tripId);
+  
+  const params = new URLSearchParams({
+    stopovers: 'true',
+    remarks: 'true',
+    polyline: 'false',
+  });
+  
+  return fetchWithCache<TripResponse>(
+    `${DB_API_BASE}/trips/${encodeURIComponent(tripId)}?${params}`,
+    'db:trips'
   );
 }
 
 // ============ Helper Functions ============
 
+/**
+ * Shift an ISO datetime by minutes
+ */
+function shiftTime(iso: string, minutes: number): string {
+  return new Date(new Date(iso).getTime() + minutes * 60 * 1000).toISOString();
+}
+
+/**
+ * Classify an upstream remark by category and severity
+ * Hints are informational; warnings (e.g. construction work) are major and
+ * realtime status messages minor, unless they announce a cancellation or
+ * replacement service. Remarks without any text are dropped.
+ */
+export function classifyRemark(remark: Remark): TransportRemark | null {
+  const summary = remark.summary || remark.text;
+  if (!summary) return null;
+
+  const content = `${summary} ${remark.text ?? ''}`;
+  const category = (remark.code && REMARK_CODES[remark.code]) ||
+    REMARK_PATTERNS.find(([, pattern]) => pattern.test(content))?.[0] ||
+    (remark.type === 'hint' ? 'hint' : 'warning');
+  const severity = CATEGORY_SEVERITY[category] ??
+    (remark.type === 'warning' ? 'major' : remark.type === 'status' ? 'minor' : 'info');
+
+  return {
+    category,
+    severity,
+    ...(remark.code && { code: remark.code }),
+    summary,
+    ...(remark.text && remark.text !== summary && { text: remark.text }),
+    ...(remark.validFrom && { validFrom: remark.validFrom }),
+    ...(remark.validUntil && { validUntil: remark.validUntil }),
+  };
+}
+
+/**
+ * Sort order for severities, most severe first
+ */
+export function compareSeverity(a: RemarkSeverity, b: RemarkSeverity): number {
+  return REMARK_SEVERITIES.indexOf(b) - REMARK_SEVERITIES.indexOf(a);
+}
+
+/**
+ * Whether a remark applies at a time (warnings can be announced ahead)
+ */
+export function isRemarkActive(remark: TransportRemark, now: number = Date.now()): boolean {
+  if (remark.validFrom && new Date(remark.validFrom).getTime() > now) return false;
+  if (remark.validUntil && new Date(remark.validUntil).getTime() < now) return false;
+  return true;
+}
+
 /**
  * Format delay in human-readable form
  */
@@ -317,6 +630,24 @@ export function formatDuration(minutes: number): string {
   return `${hours} Std ${mins} Min`;
 }
 
+/**
+ * Get a stable ID for a journey, based on its trips and planned times
+ * Same connection on different pages or after a refresh gets the same ID
+ */
+export function getJourneyId(journey: Journey): string {
+  const key = journey.legs
+    .map(leg => `${leg.tripId ?? leg.origin.id}@${leg.plannedDeparture}>${leg.destination.id}`)
+    .join('|');
+  
+  // FNV-1a hash, keeps IDs short
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `j${(hash >>> 0).toString(16).padStart(8, '0')}`;
+}
+
 /**
  * Get transfer count for a journey
  */
@@ -326,6 +657,32 @@ export function getTransferCount(journey: Journey): number {
   return Math.max(0, transportLegs.length - 1);
 }
 
+/**
+ * Get consecutive transport legs that form a transfer
+ * Walking legs in between are skipped, they belong to the transfer
+ */
+export function getTransferPairs(journey: Journey): Array<{ arriving: Leg; departing: Leg }> {
+  const transportLegs = journey.legs.filter(leg => !leg.walking);
+  return transportLegs.slice(1).map((departing, i) => ({
+    arriving: transportLegs[i],
+    departing,
+  }));
+}
+
+/**
+ * Check whether every transport leg of a journey is covered by the Deutschlandticket
+ * Based on product only - IC lines with regional ticket acceptance are not detected
+ */
+export function isDeutschlandticketJourney(journey: Journey): boolean {
+  return journey.legs
+    .filter(leg => !leg.walking && leg.line)
+    .every(leg =>
+      !!leg.line?.product &&
+      leg.line.product !== 'taxi' &&
+      !DEUTSCHLANDTICKET_EXCLUDED.includes(leg.line.product as keyof ProductFilter)
+    );
+}
+
 /**
  * Get product icon/emoji for a line
  */
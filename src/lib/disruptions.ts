@@ -0,0 +1,92 @@
+/**
+ * Disruptions
+ * Station-level summary of what is going wrong right now, grouped by line:
+ * warnings, replacement services and cancellations from the board remarks.
+ * Hints (bicycles, wheelchair spaces) are not disruptions and are left out.
+ */
+
+import {
+  classifyRemark,
+  compareSeverity,
+  isRemarkActive,
+  type Departure,
+  type Arrival,
+  type RemarkSeverity,
+  type TransportRemark,
+} from './db-transport';
+
+// ============ Types ============
+
+export interface LineDisruption {
+  line: string;
+  product?: string;
+  severity: RemarkSeverity; // worst remark, critical if a trip is cancelled
+  trips: number;            // trips of the line on the board
+  cancelledTrips: number;
+  remarks: Array<TransportRemark & { trips: number }>; // distinct remarks, with the number of trips they affect
+}
+
+export interface DisruptionSummary {
+  severity: RemarkSeverity | null; // worst across all lines, null if nothing is disrupted
+  lines: LineDisruption[];
+}
+
+// ============ Helpers ============
+
+function worst(severities: RemarkSeverity[]): RemarkSeverity | null {
+  return [...severities].sort(compareSeverity)[0] ?? null;
+}
+
+// ============ API Functions ============
+
+/**
+ * Group the active disruptions of board entries by line
+ * Entries are deduplicated by tripId, so departures and arrivals of the
+ * same station can be passed together.
+ */
+export function summarizeDisruptions(entries: Array<Departure | Arrival>, now: number = Date.now()): DisruptionSummary {
+  const byLine = new Map<string, LineDisruption>();
+  const seenTrips = new Set<string>();
+
+  for (const entry of entries) {
+    if (seenTrips.has(entry.tripId)) continue;
+    seenTrips.add(entry.tripId);
+
+    const name = entry.line?.name ?? 'unknown';
+    let line = byLine.get(name);
+    if (!line) {
+      line = { line: name, product: entry.line?.product, severity: 'info', trips: 0, cancelledTrips: 0, remarks: [] };
+      byLine.set(name, line);
+    }
+    line.trips++;
+    if (entry.when === null) line.cancelledTrips++;
+
+    for (const remark of (entry.remarks ?? []).map(classifyRemark)) {
+      if (!remark || remark.severity === 'info' || !isRemarkActive(remark, now)) continue;
+
+      const existing = line.remarks.find(r => r.category === remark.category && r.summary === remark.summary);
+      if (existing) {
+        existing.trips++;
+      } else {
+        line.remarks.push({ ...remark, trips: 1 });
+      }
+    }
+  }
+
+  const lines = [...byLine.values()]
+    .filter(line => line.remarks.length > 0 || line.cancelledTrips > 0)
+    .map(line => ({
+      ...line,
+      severity: worst([
+        ...line.remarks.map(r => r.severity),
+        ...(line.cancelledTrips > 0 ? ['critical' as const] : []),
+      ])!,
+      remarks: line.remarks.sort((a, b) => compareSeverity(a.severity, b.severity) || b.trips - a.trips),
+    }))
+    .sort((a, b) => compareSeverity(a.severity, b.severity) || a.line.localeCompare(b.line, 'de'));
+
+  return {
+    severity: worst(lines.map(line => line.severity)),
+    lines,
+  };
+}
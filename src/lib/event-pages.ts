@@ -0,0 +1,106 @@
+/**
+ * Event Pages
+ * Travel planning for /events: when to arrive at the event city's main
+ * station, when to search for the way back, and the schema.org Event
+ * markup of an event page.
+ */
+
+import type { CollectionEntry } from 'astro:content';
+import { getCityMainStation } from './locations';
+import { addMinutes, toZonedIso } from './time';
+
+// ============ Types ============
+
+export type EventCategory = CollectionEntry<'events'>['data']['category'];
+
+export interface EventPlan {
+  start: string;    // ISO with offset, Europe/Berlin
+  end: string;      // endDate, or estimated from the category
+  arriveBy: string; // latest arrival at the station
+  returnFrom: string;
+  station: { id: string; name: string } | null; // null for cities outside the city table
+}
+
+// ============ Config ============
+
+// Typical length, for events without an endDate
+const DURATION_MINUTES: Record<EventCategory, number> = {
+  concert: 180,
+  festival: 360,
+  theater: 180,
+  sport: 150,
+  exhibition: 120,
+  other: 180,
+};
+
+// Time from the station to the venue, plus entry - crowds at stadiums and festivals
+const ARRIVAL_BUFFER_MINUTES: Record<EventCategory, number> = {
+  concert: 45,
+  festival: 60,
+  theater: 45,
+  sport: 60,
+  exhibition: 30,
+  other: 45,
+};
+
+// Way back to the station after the end
+const RETURN_BUFFER_MINUTES = 30;
+
+// ============ API Functions ============
+
+/**
+ * Arrive-by and return times for the journey planner
+ * Multi-day events are planned for the first day; the return is searched
+ * after the end of that day's visit, not after the last day.
+ */
+export function planEvent(event: CollectionEntry<'events'>): EventPlan {
+  const { city, date, endDate, category } = event.data;
+  const start = toZonedIso(date);
+  const end = endDate ? toZonedIso(endDate) : addMinutes(start, DURATION_MINUTES[category]);
+  const visitEnd = end.slice(0, 10) === start.slice(0, 10) ? end : addMinutes(start, DURATION_MINUTES[category]);
+
+  return {
+    start,
+    end,
+    arriveBy: addMinutes(start, -ARRIVAL_BUFFER_MINUTES[category]),
+    returnFrom: addMinutes(visitEnd, RETURN_BUFFER_MINUTES),
+    station: getCityMainStation(city),
+  };
+}
+
+/**
+ * schema.org Event for the JSON-LD of an event page
+ */
+export function toEventJsonLd(event: CollectionEntry<'events'>, url: URL): Record<string, unknown> {
+  const { title, description, city, venue, priceFrom, ticketUrl } = event.data;
+  const { start, end } = planEvent(event);
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Event',
+    name: title,
+    description,
+    url: url.href,
+    startDate: start,
+    endDate: end,
+    eventStatus: 'https://schema.org/EventScheduled',
+    eventAttendanceMode: 'https://schema.org/OfflineEventAttendanceMode',
+    location: {
+      '@type': 'Place',
+      name: venue,
+      address: {
+        '@type': 'PostalAddress',
+        addressLocality: city,
+        addressCountry: 'DE',
+      },
+    },
+    ...(priceFrom !== undefined && {
+      offers: {
+        '@type': 'Offer',
+        price: priceFrom.toFixed(2),
+        priceCurrency: 'EUR',
+        ...(ticketUrl && { url: ticketUrl }),
+      },
+    }),
+  };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { decodeSnapshot, diffJourneys, encodeSnapshot, snapshotJourney } from './journey-diff';
+import type { Journey, Leg } from './db-transport';
+
+const stop = (id: string, name: string) => ({ type: 'stop' as const, id, name });
+
+function leg(tripId: string, from: string, to: string, departure: string, arrival: string, extra: Partial<Leg> = {}): Leg {
+  return {
+    tripId,
+    origin: stop(from, from),
+    destination: stop(to, to),
+    departure: `2025-06-01T${departure}:00+02:00`,
+    plannedDeparture: `2025-06-01T${departure}:00+02:00`,
+    arrival: `2025-06-01T${arrival}:00+02:00`,
+    plannedArrival: `2025-06-01T${arrival}:00+02:00`,
+    departurePlatform: '1',
+    plannedDeparturePlatform: '1',
+    arrivalPlatform: '2',
+    plannedArrivalPlatform: '2',
+    line: { type: 'line', id: tripId, name: tripId, product: 'nationalExpress', mode: 'train' },
+    ...extra,
+  } as Leg;
+}
+
+const journey = (...legs: Leg[]): Journey => ({ type: 'journey', legs });
+
+describe('diffJourneys', () => {
+  it('reports changes against the timetable without snapshot', () => {
+    const diff = diffJourneys(undefined, journey(leg('ICE 1', 'A', 'B', '08:00', '09:00', { departureDelay: 300 })));
+
+    expect(diff.baseline).toBe('planned');
+    expect(diff.changes).toEqual([
+      { type: 'delay', leg: 0, station: 'A', event: 'departure', delayMinutes: 5, previousDelayMinutes: 0 },
+    ]);
+  });
+
+  it('reports only what changed since the snapshot', () => {
+    const first = journey(leg('ICE 1', 'A', 'B', '08:00', '09:00', { departureDelay: 300 }));
+    const second = journey(leg('ICE 1', 'A', 'B', '08:00', '09:00', { departureDelay: 300, arrivalPlatform: '5' }));
+
+    expect(diffJourneys(snapshotJourney(first), second).changes).toEqual([
+      { type: 'platform', leg: 0, station: 'B', event: 'arrival', platform: '5', previousPlatform: '2' },
+    ]);
+  });
+
+  it('matches legs by trip, not by position', () => {
+    const first = journey(
+      leg('ICE 1', 'A', 'B', '08:00', '09:00'),
+      leg('RE 2', 'B', 'C', '09:30', '10:00', { departureDelay: 600, arrivalDelay: 600 })
+    );
+    // A replacement bus is inserted in front of the delayed RE
+    const second = journey(
+      leg('ICE 1', 'A', 'B', '08:00', '09:00'),
+      leg('Bus SEV', 'B', 'B2', '09:10', '09:20'),
+      leg('RE 2', 'B2', 'C', '09:30', '10:00', { departureDelay: 600, arrivalDelay: 600 })
+    );
+
+    expect(diffJourneys(snapshotJourney(first), second).changes).toEqual([]);
+  });
+
+  it('falls back to origin and planned departure for legs without trip ID', () => {
+    const first = journey(leg('ICE 1', 'A', 'B', '08:00', '09:00', { tripId: undefined, departureDelay: 120 }));
+    const second = journey(leg('ICE 1', 'A', 'B', '08:00', '09:00', { tripId: undefined, departureDelay: 120 }));
+
+    expect(diffJourneys(snapshotJourney(first), second).changed).toBe(false);
+  });
+});
+
+describe('snapshots', () => {
+  it('survive encoding as a URL-safe string', () => {
+    const snapshot = snapshotJourney(journey(leg('ICE 1', 'A', 'B', '08:00', '09:00', { departurePlatform: '3 a–c' })));
+    const encoded = encodeSnapshot(snapshot);
+
+    expect(encoded).toMatch(/^[\w-]+$/);
+    expect(decodeSnapshot(encoded)).toEqual(snapshot);
+  });
+});
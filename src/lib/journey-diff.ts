@@ -0,0 +1,195 @@
+/**
+ * Journey Diff
+ * Compares a refreshed journey against its previous state (or the timetable,
+ * if there is none) and summarizes what changed for the traveller.
+ */
+
+import { getTransferPairs, type Journey, type Leg } from './db-transport';
+
+// ============ Types ============
+
+export type JourneyChange =
+  | { type: 'delay'; leg: number; station: string; event: 'departure' | 'arrival'; delayMinutes: number; previousDelayMinutes: number }
+  | { type: 'platform'; leg: number; station: string; event: 'departure' | 'arrival'; platform: string | null; previousPlatform: string | null }
+  | { type: 'cancelled'; leg: number; line?: string }
+  | { type: 'transfer_broken'; leg: number; station: string; bufferMinutes: number };
+
+export interface JourneyDiff {
+  baseline: 'previous' | 'planned';
+  changed: boolean;
+  changes: JourneyChange[];
+}
+
+// State of one transport leg, as seen by the client at its last refresh
+export interface LegSnapshot {
+  key: string; // tripId, or origin station and planned departure
+  departureDelay: number; // minutes
+  arrivalDelay: number;
+  departurePlatform: string | null;
+  arrivalPlatform: string | null;
+  cancelled: boolean;
+  transferBroken: boolean; // the transfer onto this leg can no longer be made
+}
+
+export interface JourneySnapshot {
+  legs: LegSnapshot[];
+}
+
+// ============ Helpers ============
+
+function delayMinutes(delaySeconds: number | null | undefined): number {
+  return Math.round((delaySeconds ?? 0) / 60);
+}
+
+// Cancelled legs may come without realtime times
+function departureTime(leg: Leg): number {
+  return new Date(leg.departure ?? leg.plannedDeparture).getTime();
+}
+
+function arrivalTime(leg: Leg): number {
+  return new Date(leg.arrival ?? leg.plannedArrival).getTime();
+}
+
+/**
+ * Identify a leg across refreshes, even if legs were added or removed before it
+ */
+function legKey(leg: Leg): string {
+  return leg.tripId ?? `${leg.origin.id}@${leg.plannedDeparture}`;
+}
+
+/**
+ * Transfers that can no longer be made, keyed by the departing leg
+ */
+function brokenTransfers(journey: Journey): Map<Leg, number> {
+  const broken = new Map<Leg, number>();
+  for (const { arriving, departing } of getTransferPairs(journey)) {
+    const bufferMinutes = Math.round((departureTime(departing) - arrivalTime(arriving)) / 60000);
+    if (bufferMinutes < 0 || arriving.cancelled || departing.cancelled) {
+      broken.set(departing, bufferMinutes);
+    }
+  }
+  return broken;
+}
+
+// The timetable, as baseline for legs the client has not seen yet
+function plannedLeg(leg: Leg): LegSnapshot {
+  return {
+    key: legKey(leg),
+    departureDelay: 0,
+    arrivalDelay: 0,
+    departurePlatform: leg.plannedDeparturePlatform ?? null,
+    arrivalPlatform: leg.plannedArrivalPlatform ?? null,
+    cancelled: false,
+    transferBroken: false,
+  };
+}
+
+// ============ API Functions ============
+
+/**
+ * Diff the current journey against the snapshot of a previous refresh
+ * Without snapshot, changes are reported against the planned timetable.
+ * Legs are matched by key, so added or removed legs don't shift the others.
+ */
+export function diffJourneys(previous: JourneySnapshot | null | undefined, current: Journey): JourneyDiff {
+  const changes: JourneyChange[] = [];
+  const previousLegs = new Map(previous?.legs.map(leg => [leg.key, leg]));
+  const currentBroken = brokenTransfers(current);
+
+  current.legs.forEach((leg, i) => {
+    if (leg.walking) return;
+    const before = previousLegs.get(legKey(leg)) ?? plannedLeg(leg);
+
+    if (leg.cancelled && !before.cancelled) {
+      changes.push({ type: 'cancelled', leg: i, line: leg.line?.name });
+      return;
+    }
+
+    const events = [
+      {
+        event: 'departure' as const,
+        station: leg.origin.name,
+        delay: delayMinutes(leg.departureDelay),
+        previousDelay: before.departureDelay,
+        platform: leg.departurePlatform ?? null,
+        previousPlatform: before.departurePlatform,
+      },
+      {
+        event: 'arrival' as const,
+        station: leg.destination.name,
+        delay: delayMinutes(leg.arrivalDelay),
+        previousDelay: before.arrivalDelay,
+        platform: leg.arrivalPlatform ?? null,
+        previousPlatform: before.arrivalPlatform,
+      },
+    ];
+
+    for (const e of events) {
+      if (e.delay !== e.previousDelay) {
+        changes.push({
+          type: 'delay',
+          leg: i,
+          station: e.station,
+          event: e.event,
+          delayMinutes: e.delay,
+          previousDelayMinutes: e.previousDelay,
+        });
+      }
+      if (e.platform && e.previousPlatform && e.platform !== e.previousPlatform) {
+        changes.push({
+          type: 'platform',
+          leg: i,
+          station: e.station,
+          event: e.event,
+          platform: e.platform,
+          previousPlatform: e.previousPlatform,
+        });
+      }
+    }
+
+    const bufferMinutes = currentBroken.get(leg);
+    if (bufferMinutes !== undefined && !before.transferBroken) {
+      changes.push({ type: 'transfer_broken', leg: i, station: leg.origin.name, bufferMinutes });
+    }
+  });
+
+  return {
+    baseline: previous ? 'previous' : 'planned',
+    changed: changes.length > 0,
+    changes,
+  };
+}
+
+/**
+ * Current state of a journey's transport legs, for the next diff
+ */
+export function snapshotJourney(journey: Journey): JourneySnapshot {
+  const broken = brokenTransfers(journey);
+  return {
+    legs: journey.legs.filter(leg => !leg.walking).map(leg => ({
+      key: legKey(leg),
+      departureDelay: delayMinutes(leg.departureDelay),
+      arrivalDelay: delayMinutes(leg.arrivalDelay),
+      departurePlatform: leg.departurePlatform ?? null,
+      arrivalPlatform: leg.arrivalPlatform ?? null,
+      cancelled: !!leg.cancelled,
+      transferBroken: broken.has(leg),
+    })),
+  };
+}
+
+/**
+ * Encode a snapshot as URL-safe base64, to be sent back as `since`
+ */
+export function encodeSnapshot(snapshot: JourneySnapshot): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(snapshot));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode an encoded snapshot; the caller validates its shape
+ */
+export function decodeSnapshot(value: string): unknown {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0))));
+}
@@ -0,0 +1,26 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { resolveStation } from './locations';
+import { configureProviders } from './mock-providers';
+
+beforeAll(() => {
+  configureProviders({ mock: true });
+});
+
+afterAll(() => {
+  configureProviders({ mock: false });
+});
+
+describe('resolveStation', () => {
+  it('routes airports via their own station', async () => {
+    expect(await resolveStation('MUC')).toMatchObject({ name: 'München Flughafen Terminal' });
+    expect(await resolveStation('Frankfurt Flughafen')).toMatchObject({ name: 'Frankfurt(M) Flughafen Regionalbf' });
+  });
+
+  it('falls back to a nearby main station', async () => {
+    expect(await resolveStation('52.51,13.39')).toMatchObject({ id: '8011160', name: 'Berlin Hbf' });
+  });
+
+  it.each(['LHR', '52.0,5.0'])('rejects %s, which has no main station nearby', async input => {
+    await expect(resolveStation(input)).rejects.toMatchObject({ name: 'LocationNotFoundError', input });
+  });
+});
@@ -0,0 +1,466 @@
+/**
+ * Location Resolver
+ * Turns free text, coordinates, DB station IDs or IATA codes into one
+ * canonical place with coordinates, nearest main station and nearest airports.
+ *
+ * Known cities and airports are resolved offline from the tables below,
+ * everything else goes through the DB station search. Ambiguous input
+ * returns ranked alternatives instead of silently taking the first hit.
+ */
+
+import { searchLocations, getStop, type Stop } from './db-transport';
+
+// ============ Types ============
+
+export type PlaceType = 'city' | 'station' | 'airport' | 'coordinates';
+
+export interface StationRef {
+  id: string;
+  name: string;
+  distanceKm: number;
+}
+
+export interface AirportRef {
+  iataCode: string;
+  name: string;
+  distanceKm: number;
+}
+
+export interface Place {
+  id: string; // canonical, e.g. "city:hamburg", "station:8002549", "airport:HAM"
+  type: PlaceType;
+  name: string;
+  latitude: number;
+  longitude: number;
+  stationId?: string; // set if the place itself is a DB station
+  iataCode?: string;  // set if the place itself is an airport
+  mainStation: StationRef | null;
+  airports: AirportRef[];
+}
+
+export interface PlaceResolution {
+  place: Place;
+  alternatives: Place[]; // ranked, best first
+  ambiguous: boolean;
+}
+
+export interface Airport {
+  iataCode: string;
+  name: string;
+  city: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  timeZone: string; // IANA zone, Amadeus times are local airport times
+  railStation?: string; // DB station at the airport, resolved by name
+}
+
+interface City {
+  name: string;
+  aliases: string[];
+  latitude: number;
+  longitude: number;
+  mainStation: { id: string; name: string };
+}
+
+interface Candidate {
+  place: Place;
+  score: number;
+}
+
+export class LocationNotFoundError extends Error {
+  constructor(public input: string) {
+    super(`Location not found: ${input}`);
+    this.name = 'LocationNotFoundError';
+  }
+}
+
+export class AmbiguousLocationError extends Error {
+  constructor(public input: string, public alternatives: Place[]) {
+    super(`Ambiguous location: ${input}`);
+    this.name = 'AmbiguousLocationError';
+  }
+}
+
+// ============ Data ============
+
+// Deutsche Städte mit Hauptbahnhof (Erweiterbar via DZT Knowledge Graph)
+const CITIES: City[] = [
+  { name: 'Berlin', aliases: [], latitude: 52.5200, longitude: 13.4050, mainStation: { id: '8011160', name: 'Berlin Hbf' } },
+  { name: 'Hamburg', aliases: [], latitude: 53.5511, longitude: 9.9937, mainStation: { id: '8002549', name: 'Hamburg Hbf' } },
+  { name: 'München', aliases: ['munich'], latitude: 48.1351, longitude: 11.5820, mainStation: { id: '8000261', name: 'München Hbf' } },
+  { name: 'Köln', aliases: ['cologne'], latitude: 50.9375, longitude: 6.9603, mainStation: { id: '8000207', name: 'Köln Hbf' } },
+  { name: 'Frankfurt', aliases: ['frankfurt am main', 'frankfurt main'], latitude: 50.1109, longitude: 8.6821, mainStation: { id: '8000105', name: 'Frankfurt(Main)Hbf' } },
+  { name: 'Düsseldorf', aliases: [], latitude: 51.2277, longitude: 6.7735, mainStation: { id: '8000085', name: 'Düsseldorf Hbf' } },
+  { name: 'Stuttgart', aliases: [], latitude: 48.7758, longitude: 9.1829, mainStation: { id: '8000096', name: 'Stuttgart Hbf' } },
+  { name: 'Dortmund', aliases: [], latitude: 51.5136, longitude: 7.4653, mainStation: { id: '8000080', name: 'Dortmund Hbf' } },
+  { name: 'Essen', aliases: [], latitude: 51.4556, longitude: 7.0116, mainStation: { id: '8000098', name: 'Essen Hbf' } },
+  { name: 'Leipzig', aliases: [], latitude: 51.3397, longitude: 12.3731, mainStation: { id: '8010205', name: 'Leipzig Hbf' } },
+  { name: 'Dresden', aliases: [], latitude: 51.0504, longitude: 13.7373, mainStation: { id: '8010085', name: 'Dresden Hbf' } },
+  { name: 'Hannover', aliases: ['hanover'], latitude: 52.3759, longitude: 9.7320, mainStation: { id: '8000152', name: 'Hannover Hbf' } },
+  { name: 'Nürnberg', aliases: ['nuremberg'], latitude: 49.4521, longitude: 11.0767, mainStation: { id: '8000284', name: 'Nürnberg Hbf' } },
+  { name: 'Bremen', aliases: [], latitude: 53.0793, longitude: 8.8017, mainStation: { id: '8000050', name: 'Bremen Hbf' } },
+];
+
+export const AIRPORTS: Airport[] = [
+  { iataCode: 'BER', name: 'Berlin Brandenburg Airport', city: 'Berlin', country: 'Germany', latitude: 52.3667, longitude: 13.5033, timeZone: 'Europe/Berlin', railStation: 'Flughafen BER' },
+  { iataCode: 'FRA', name: 'Frankfurt Airport', city: 'Frankfurt', country: 'Germany', latitude: 50.0379, longitude: 8.5622, timeZone: 'Europe/Berlin', railStation: 'Frankfurt(M) Flughafen Regionalbf' },
+  { iataCode: 'MUC', name: 'Munich Airport', city: 'München', country: 'Germany', latitude: 48.3538, longitude: 11.7861, timeZone: 'Europe/Berlin', railStation: 'München Flughafen Terminal' },
+  { iataCode: 'HAM', name: 'Hamburg Airport', city: 'Hamburg', country: 'Germany', latitude: 53.6304, longitude: 9.9882, timeZone: 'Europe/Berlin', railStation: 'Hamburg Airport' },
+  { iataCode: 'DUS', name: 'Düsseldorf Airport', city: 'Düsseldorf', country: 'Germany', latitude: 51.2895, longitude: 6.7668, timeZone: 'Europe/Berlin', railStation: 'Düsseldorf Flughafen Terminal' },
+  { iataCode: 'CGN', name: 'Cologne Bonn Airport', city: 'Köln', country: 'Germany', latitude: 50.8659, longitude: 7.1427, timeZone: 'Europe/Berlin', railStation: 'Köln/Bonn Flughafen' },
+  { iataCode: 'STR', name: 'Stuttgart Airport', city: 'Stuttgart', country: 'Germany', latitude: 48.6899, longitude: 9.2220, timeZone: 'Europe/Berlin', railStation: 'Stuttgart Flughafen/Messe' },
+  { iataCode: 'HAJ', name: 'Hannover Airport', city: 'Hannover', country: 'Germany', latitude: 52.4611, longitude: 9.6851, timeZone: 'Europe/Berlin', railStation: 'Hannover Flughafen' },
+  { iataCode: 'NUE', name: 'Nuremberg Airport', city: 'Nürnberg', country: 'Germany', latitude: 49.4987, longitude: 11.0669, timeZone: 'Europe/Berlin', railStation: 'Nürnberg Flughafen' },
+  { iataCode: 'LEJ', name: 'Leipzig/Halle Airport', city: 'Leipzig', country: 'Germany', latitude: 51.4239, longitude: 12.2364, timeZone: 'Europe/Berlin', railStation: 'Leipzig/Halle Flughafen' },
+  { iataCode: 'DRS', name: 'Dresden Airport', city: 'Dresden', country: 'Germany', latitude: 51.1328, longitude: 13.7672, timeZone: 'Europe/Berlin', railStation: 'Dresden Flughafen' },
+  { iataCode: 'BRE', name: 'Bremen Airport', city: 'Bremen', country: 'Germany', latitude: 53.0475, longitude: 8.7867, timeZone: 'Europe/Berlin', railStation: 'Bremen Flughafen' },
+  // International airports for demo
+  { iataCode: 'LHR', name: 'London Heathrow Airport', city: 'London', country: 'United Kingdom', latitude: 51.4700, longitude: -0.4543, timeZone: 'Europe/London' },
+  { iataCode: 'CDG', name: 'Paris Charles de Gaulle Airport', city: 'Paris', country: 'France', latitude: 49.0097, longitude: 2.5479, timeZone: 'Europe/Paris' },
+  { iataCode: 'AMS', name: 'Amsterdam Airport Schiphol', city: 'Amsterdam', country: 'Netherlands', latitude: 52.3105, longitude: 4.7683, timeZone: 'Europe/Amsterdam' },
+  { iataCode: 'MAD', name: 'Madrid Barajas Airport', city: 'Madrid', country: 'Spain', latitude: 40.4983, longitude: -3.5676, timeZone: 'Europe/Madrid' },
+  { iataCode: 'BCN', name: 'Barcelona El Prat Airport', city: 'Barcelona', country: 'Spain', latitude: 41.2974, longitude: 2.0833, timeZone: 'Europe/Madrid' },
+  { iataCode: 'FCO', name: 'Rome Fiumicino Airport', city: 'Rome', country: 'Italy', latitude: 41.8003, longitude: 12.2389, timeZone: 'Europe/Rome' },
+  { iataCode: 'VIE', name: 'Vienna International Airport', city: 'Vienna', country: 'Austria', latitude: 48.1103, longitude: 16.5697, timeZone: 'Europe/Vienna' },
+  { iataCode: 'ZRH', name: 'Zurich Airport', city: 'Zurich', country: 'Switzerland', latitude: 47.4582, longitude: 8.5555, timeZone: 'Europe/Zurich' },
+];
+
+const AIRPORT_KEYWORDS = ['flughafen', 'airport', 'flugh'];
+
+// Places farther from every main station in the city table have no routing station
+const MAX_MAIN_STATION_KM = 25;
+
+// Candidates within this score distance of the best one count as ambiguous
+const AMBIGUITY_MARGIN = 0.05;
+
+// ============ Helpers ============
+
+/**
+ * Normalize a place name for matching
+ * "München", "Muenchen" and "Munchen" all become "munchen"
+ */
+export function normalizePlaceName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/ae/g, 'a')
+    .replace(/oe/g, 'o')
+    .replace(/ue/g, 'u');
+}
+
+/**
+ * Great-circle distance in kilometers
+ */
+export function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function round(km: number): number {
+  return Math.round(km * 10) / 10;
+}
+
+/**
+ * Nearest main station from the city table
+ */
+export function nearestMainStation(latitude: number, longitude: number): StationRef | null {
+  let best: StationRef | null = null;
+  for (const city of CITIES) {
+    const km = distanceKm(latitude, longitude, city.latitude, city.longitude);
+    if (!best || km < best.distanceKm) {
+      best = { id: city.mainStation.id, name: city.mainStation.name, distanceKm: km };
+    }
+  }
+  return best && { ...best, distanceKm: round(best.distanceKm) };
+}
+
+/**
+ * Nearest airports from the airport table, closest first
+ */
+export function nearestAirports(latitude: number, longitude: number, limit = 2): AirportRef[] {
+  return AIRPORTS
+    .map(airport => ({
+      iataCode: airport.iataCode,
+      name: airport.name,
+      distanceKm: round(distanceKm(latitude, longitude, airport.latitude, airport.longitude)),
+    }))
+    .sort((a, b) => a.distanceKm - b.distanceKm)
+    .slice(0, limit);
+}
+
+/**
+ * Main stations from the city table, with coordinates
+ */
+export function listMainStations(): Array<{ id: string; name: string; latitude: number; longitude: number }> {
+  return CITIES.map(city => ({
+    id: city.mainStation.id,
+    name: city.mainStation.name,
+    latitude: city.latitude,
+    longitude: city.longitude,
+  }));
+}
+
+/**
+ * Main station of a city in the city table, by name or alias
+ */
+export function getCityMainStation(name: string): { id: string; name: string } | null {
+  const key = normalizePlaceName(name);
+  const city = CITIES.find(c => [c.name, ...c.aliases].some(n => normalizePlaceName(n) === key));
+  return city?.mainStation ?? null;
+}
+
+/**
+ * DB station at an airport in the airport table
+ */
+export function getAirportRailStation(iataCode: string): string | undefined {
+  return AIRPORTS.find(airport => airport.iataCode === iataCode)?.railStation;
+}
+
+/**
+ * Time zone of an airport in the airport table
+ */
+export function getAirportTimeZone(iataCode: string): string | undefined {
+  return AIRPORTS.find(airport => airport.iataCode === iataCode)?.timeZone;
+}
+
+/**
+ * Search the airport table by city, name or IATA code
+ */
+export function searchAirportTable(query: string): Airport[] {
+  const key = normalizePlaceName(query);
+  return AIRPORTS.filter(airport =>
+    normalizePlaceName(airport.city).includes(key) ||
+    normalizePlaceName(airport.name).includes(key) ||
+    airport.iataCode.toLowerCase().includes(key)
+  );
+}
+
+function buildPlace(
+  base: Pick<Place, 'id' | 'type' | 'name' | 'latitude' | 'longitude' | 'stationId' | 'iataCode'>
+): Place {
+  return {
+    ...base,
+    mainStation: nearestMainStation(base.latitude, base.longitude),
+    airports: nearestAirports(base.latitude, base.longitude),
+  };
+}
+
+function cityPlace(city: City): Place {
+  const place = buildPlace({
+    id: `city:${normalizePlaceName(city.name)}`,
+    type: 'city',
+    name: city.name,
+    latitude: city.latitude,
+    longitude: city.longitude,
+  });
+  return { ...place, mainStation: { ...city.mainStation, distanceKm: 0 } };
+}
+
+function airportPlace(airport: Airport): Place {
+  return buildPlace({
+    id: `airport:${airport.iataCode}`,
+    type: 'airport',
+    name: airport.name,
+    latitude: airport.latitude,
+    longitude: airport.longitude,
+    iataCode: airport.iataCode,
+  });
+}
+
+function stationPlace(stop: Stop): Place | null {
+  if (!stop.location) return null;
+  return buildPlace({
+    id: `station:${stop.id}`,
+    type: 'station',
+    name: stop.name,
+    latitude: stop.location.latitude,
+    longitude: stop.location.longitude,
+    stationId: stop.id,
+  });
+}
+
+function rank(input: string, candidates: Candidate[]): PlaceResolution {
+  if (candidates.length === 0) {
+    throw new LocationNotFoundError(input);
+  }
+
+  const sorted = [...candidates].sort((a, b) => b.score - a.score);
+  const [best, second] = sorted;
+
+  return {
+    place: best.place,
+    alternatives: sorted.slice(1).map(c => c.place),
+    ambiguous: best.score < 1 && !!second && second.score >= best.score - AMBIGUITY_MARGIN,
+  };
+}
+
+function scoreName(name: string, key: string): number {
+  const nameKey = normalizePlaceName(name);
+  if (nameKey === key) return 1;
+  if (nameKey.startsWith(key)) return 0.8;
+  if (` ${nameKey} `.includes(` ${key} `)) return 0.7;
+  return 0.5;
+}
+
+/**
+ * Offline lookup of known cities and airports
+ */
+function matchTables(key: string): Candidate[] {
+  const candidates: Candidate[] = [];
+  const wantsAirport = AIRPORT_KEYWORDS.some(word => key.split(' ').includes(word));
+  const cityKey = key
+    .split(' ')
+    .filter(word => !AIRPORT_KEYWORDS.includes(word))
+    .join(' ');
+
+  for (const city of CITIES) {
+    const names = [city.name, ...city.aliases].map(normalizePlaceName);
+    if (!names.includes(cityKey)) continue;
+
+    if (wantsAirport) {
+      AIRPORTS
+        .filter(airport => normalizePlaceName(airport.city) === normalizePlaceName(city.name))
+        .forEach(airport => candidates.push({ place: airportPlace(airport), score: 1 }));
+    } else {
+      candidates.push({ place: cityPlace(city), score: 1 });
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * DB station search, ranked by name similarity
+ */
+async function matchStations(input: string, key: string): Promise<Candidate[]> {
+  const stops = await searchLocations(input, { results: 5 });
+
+  return stops.flatMap((stop, index) => {
+    const place = stationPlace(stop);
+    if (!place) return [];
+
+    const isMainStation = / hbf( |$)/.test(` ${normalizePlaceName(stop.name)}`);
+    const score = Math.min(1, scoreName(stop.name, key) + (isMainStation ? 0.1 : 0)) - index * 0.02;
+    return [{ place, score }];
+  });
+}
+
+// ============ API Functions ============
+
+/**
+ * Resolve free text, "lat,lon", a DB station ID or an IATA code to a place
+ */
+export async function resolvePlace(input: string, options?: {
+  stationsOnly?: boolean; // skip city/airport tables, e.g. for exact station names
+}): Promise<PlaceResolution> {
+  const trimmed = input.trim();
+
+  // Coordinates "lat,lon"
+  const coords = trimmed.match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+  if (coords) {
+    const latitude = parseFloat(coords[1]);
+    const longitude = parseFloat(coords[2]);
+    return {
+      place: buildPlace({
+        id: `coordinates:${latitude},${longitude}`,
+        type: 'coordinates',
+        name: trimmed,
+        latitude,
+        longitude,
+      }),
+      alternatives: [],
+      ambiguous: false,
+    };
+  }
+
+  // DB station ID (IBNR)
+  if (/^\d{6,9}$/.test(trimmed)) {
+    const place = stationPlace(await getStop(trimmed));
+    if (!place) throw new LocationNotFoundError(input);
+    return { place, alternatives: [], ambiguous: false };
+  }
+
+  // IATA code from the airport table
+  const airport = AIRPORTS.find(a => a.iataCode === trimmed.toUpperCase());
+  if (airport && !options?.stationsOnly) {
+    return { place: airportPlace(airport), alternatives: [], ambiguous: false };
+  }
+
+  const key = normalizePlaceName(trimmed);
+  if (!key) throw new LocationNotFoundError(input);
+
+  if (!options?.stationsOnly) {
+    const known = matchTables(key);
+    if (known.length > 0) return rank(input, known);
+  }
+
+  return rank(input, await matchStations(trimmed, key));
+}
+
+/**
+ * Resolve a place and reject ambiguous input with ranked alternatives
+ */
+export async function resolveUniquePlace(
+  input: string,
+  options?: Parameters<typeof resolvePlace>[1]
+): Promise<Place> {
+  const resolution = await resolvePlace(input, options);
+  if (resolution.ambiguous) {
+    throw new AmbiguousLocationError(input, [resolution.place, ...resolution.alternatives]);
+  }
+  return resolution.place;
+}
+
+/**
+ * Get the DB station to route from/to for a place
+ * Airports route via their own station; other places via the nearest main
+ * station, unless that is more than MAX_MAIN_STATION_KM away.
+ */
+export async function getRoutingStation(place: Place): Promise<{ id: string; name: string } | null> {
+  if (place.stationId) return { id: place.stationId, name: place.name };
+
+  const railStation = place.iataCode && getAirportRailStation(place.iataCode);
+  if (railStation) {
+    const { place: station } = await resolvePlace(railStation, { stationsOnly: true });
+    if (station.stationId) return { id: station.stationId, name: station.name };
+  }
+
+  if (!place.mainStation || place.mainStation.distanceKm > MAX_MAIN_STATION_KM) return null;
+  return { id: place.mainStation.id, name: place.mainStation.name };
+}
+
+/**
+ * Resolve input to the DB station to use for boards and routing
+ */
+export async function resolveStation(input: string): Promise<{ id: string; name: string }> {
+  const station = await getRoutingStation(await resolveUniquePlace(input));
+  if (!station) throw new LocationNotFoundError(input);
+  return station;
+}
+
+/**
+ * Get the IATA code to fly from/to for an input
+ * Uppercase 3-letter codes are passed through to Amadeus as-is
+ */
+export async function resolveAirportCode(input: string): Promise<string> {
+  const trimmed = input.trim();
+  if (/^[A-Z]{3}$/.test(trimmed)) return trimmed;
+
+  const place = await resolveUniquePlace(trimmed);
+  const code = place.iataCode ?? place.airports[0]?.iataCode;
+  if (!code) throw new LocationNotFoundError(input);
+  return code;
+}
@@ -0,0 +1,41 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { APIContext } from 'astro';
+import { configureProviders, mockLocations, mockStop } from './mock-providers';
+import { findJourneys } from './db-transport';
+import { GET as connections } from '../pages/api/connections';
+
+beforeAll(() => {
+  configureProviders({ mock: true });
+});
+
+afterAll(() => {
+  configureProviders({ mock: false });
+});
+
+describe('mock stations', () => {
+  it('finds only stations of the fixed list', () => {
+    expect(mockLocations('Hamburg').map(stop => stop.name)).toEqual(['Hamburg Hbf', 'Hamburg Airport']);
+    expect(mockLocations('Atlantis')).toEqual([]);
+  });
+
+  it('answers unknown station IDs with 404', () => {
+    expect(mockStop('8002549').name).toBe('Hamburg Hbf');
+    expect(() => mockStop('99999999')).toThrow(expect.objectContaining({ status: 404 }));
+  });
+
+  it('rejects unknown places instead of walking there', async () => {
+    const url = new URL('http://localhost/api/connections?from=Berlin&to=Atlantis');
+    const response = await connections({ url, request: new Request(url) } as unknown as APIContext);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'LOCATION_NOT_FOUND' });
+  });
+
+  it('changes trains at real junctions', async () => {
+    const { journeys } = await findJourneys('8000284', '8002549', { results: 5 });
+    const stations = journeys.flatMap(journey => journey.legs.map(leg => leg.origin.name));
+
+    expect(stations.length).toBeGreaterThan(0);
+    expect(stations.filter(name => /Knoten/.test(name))).toEqual([]);
+  });
+});
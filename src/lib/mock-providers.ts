@@ -0,0 +1,1246 @@
+/**
+ * Mock Providers
+ * Offline stand-ins for the DB, Amadeus and MOTIS clients, for development,
+ * demos and tests without credentials or network.
+ *
+ * Enabled with MOCK_PROVIDERS=true (configured per request in src/middleware.ts).
+ * Data is generated, not recorded: durations and prices follow the distance
+ * between the places, and every response is seeded by its request, so the
+ * same query always returns the same connections.
+ */
+
+import type {
+  Stop,
+  Line,
+  Leg,
+  Journey,
+  JourneysResponse,
+  RefreshJourneyResponse,
+  Departure,
+  DeparturesResponse,
+  Arrival,
+  ArrivalsResponse,
+  Remark,
+  Stopover,
+  TripResponse,
+  ProductFilter,
+} from './db-transport';
+import type {
+  FlightOffer,
+  FlightSearchResponse,
+  FlightDatesResponse,
+  AirportLocation,
+  Itinerary,
+  Segment,
+} from './amadeus-flights';
+import type { MotisPlanResponse, MotisItinerary, MotisLeg } from './motis';
+import {
+  AIRPORTS,
+  distanceKm,
+  normalizePlaceName,
+  nearestMainStation,
+  listMainStations,
+  searchAirportTable,
+} from './locations';
+import { UpstreamHttpError } from './rate-limit';
+import { DEFAULT_TIME_ZONE, toZonedIso, zonedTimeToUtc, today } from './time';
+
+// ============ Types ============
+
+interface MockStation {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+type Product = keyof ProductFilter;
+
+interface JourneyOptions extends ProductFilter {
+  via?: string;
+  departure?: string | Date;
+  arrival?: string | Date;
+  results?: number;
+  transferTime?: number;
+  tickets?: boolean;
+  earlierThan?: string;
+  laterThan?: string;
+}
+
+interface BoardOptions extends ProductFilter {
+  when?: string | Date;
+  duration?: number;
+  results?: number;
+}
+
+// ============ Config ============
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Average speed incl. stops, km/h
+const SPEED: Record<Product, number> = {
+  nationalExpress: 150,
+  national: 110,
+  regionalExp: 80,
+  regional: 60,
+  suburban: 40,
+  bus: 30,
+};
+
+const LINE_PREFIX: Record<Product, string> = {
+  nationalExpress: 'ICE',
+  national: 'IC',
+  regionalExp: 'RE',
+  regional: 'RB',
+  suburban: 'S',
+  bus: 'Bus',
+};
+
+// Station board lines: [product, headway in minutes]
+const BOARD_LINES: Array<[Product, number]> = [
+  ['nationalExpress', 60],
+  ['nationalExpress', 120],
+  ['national', 120],
+  ['regionalExp', 60],
+  ['regional', 60],
+  ['suburban', 20],
+  ['suburban', 20],
+  ['bus', 30],
+];
+
+// Distance between stops along a trip, km; long-distance trains stop at main stations instead
+const STOP_SPACING_KM: Record<Product, number> = {
+  nationalExpress: 0,
+  national: 0,
+  regionalExp: 20,
+  regional: 10,
+  suburban: 3,
+  bus: 1.5,
+};
+const MAX_INTERMEDIATE_STOPS = 12;
+const CORRIDOR_KM = 40; // main stations this close to the line are served
+const DWELL_MINUTES = 1;
+
+// How far regional lines on the boards run, km
+const BOARD_RANGE_KM: Record<Product, [number, number]> = {
+  nationalExpress: [0, 0],
+  national: [0, 0],
+  regionalExp: [40, 100],
+  regional: [20, 60],
+  suburban: [10, 30],
+  bus: [3, 12],
+};
+
+const BEARINGS: Record<string, number> = { Nord: 0, Ost: 90, Süd: 180, West: 270 };
+// Real interchange stations outside the city table, for changes between distant cities
+const JUNCTIONS: Array<{ name: string; latitude: number; longitude: number }> = [
+  { name: 'Fulda', latitude: 50.5545, longitude: 9.6838 },
+  { name: 'Kassel-Wilhelmshöhe', latitude: 51.3130, longitude: 9.4466 },
+  { name: 'Göttingen', latitude: 51.5366, longitude: 9.9267 },
+  { name: 'Würzburg Hbf', latitude: 49.8017, longitude: 9.9357 },
+  { name: 'Erfurt Hbf', latitude: 50.9725, longitude: 11.0380 },
+  { name: 'Halle(Saale)Hbf', latitude: 51.4776, longitude: 11.9870 },
+  { name: 'Magdeburg Hbf', latitude: 52.1302, longitude: 11.6270 },
+  { name: 'Braunschweig Hbf', latitude: 52.2524, longitude: 10.5397 },
+  { name: 'Wolfsburg Hbf', latitude: 52.4295, longitude: 10.7879 },
+  { name: 'Stendal Hbf', latitude: 52.5946, longitude: 11.8558 },
+  { name: 'Uelzen', latitude: 52.9680, longitude: 10.5580 },
+  { name: 'Bielefeld Hbf', latitude: 52.0292, longitude: 8.5325 },
+  { name: 'Osnabrück Hbf', latitude: 52.2728, longitude: 8.0616 },
+  { name: 'Münster(Westf)Hbf', latitude: 51.9566, longitude: 7.6353 },
+  { name: 'Koblenz Hbf', latitude: 50.3509, longitude: 7.5889 },
+  { name: 'Mainz Hbf', latitude: 50.0012, longitude: 8.2588 },
+  { name: 'Mannheim Hbf', latitude: 49.4794, longitude: 8.4699 },
+  { name: 'Karlsruhe Hbf', latitude: 48.9936, longitude: 8.4020 },
+  { name: 'Saarbrücken Hbf', latitude: 49.2410, longitude: 6.9910 },
+  { name: 'Freiburg(Breisgau) Hbf', latitude: 47.9977, longitude: 7.8413 },
+  { name: 'Ulm Hbf', latitude: 48.3994, longitude: 9.9822 },
+  { name: 'Augsburg Hbf', latitude: 48.3655, longitude: 10.8855 },
+  { name: 'Ingolstadt Hbf', latitude: 48.7447, longitude: 11.4374 },
+  { name: 'Regensburg Hbf', latitude: 49.0117, longitude: 12.0998 },
+  { name: 'Bamberg', latitude: 49.9005, longitude: 10.8995 },
+  { name: 'Hof Hbf', latitude: 50.3080, longitude: 11.9200 },
+  { name: 'Chemnitz Hbf', latitude: 50.8394, longitude: 12.9302 },
+  { name: 'Cottbus Hbf', latitude: 51.7505, longitude: 14.3256 },
+  { name: 'Rostock Hbf', latitude: 54.0782, longitude: 12.1313 },
+  { name: 'Lübeck Hbf', latitude: 53.8677, longitude: 10.6696 },
+  { name: 'Kiel Hbf', latitude: 54.3148, longitude: 10.1318 },
+];
+const TRANSFER_RANGE_KM = 60;
+
+// Made-up stations kept for later lookups by ID, oldest dropped first
+const MAX_MADE_UP_STATIONS = 2000;
+
+const HALT_SUFFIXES = [
+  'Bahnhof', 'Markt', 'Kirche', 'Schule', 'Rathaus', 'Friedhof',
+  'Sportplatz', 'Klinikum', 'Gewerbegebiet', 'Am Park', 'Mühle', 'Siedlung',
+];
+
+// Remarks every trip of a product carries
+const HINTS: Record<Product, Remark[]> = {
+  nationalExpress: [
+    { type: 'hint', code: 'RO', text: 'Rollstuhlstellplatz' },
+    { type: 'hint', code: 'FK', text: 'Fahrradmitnahme reservierungspflichtig' },
+    { type: 'hint', code: 'BR', text: 'Bordrestaurant' },
+  ],
+  national: [
+    { type: 'hint', code: 'RO', text: 'Rollstuhlstellplatz' },
+    { type: 'hint', code: 'FK', text: 'Fahrradmitnahme reservierungspflichtig' },
+  ],
+  regionalExp: [
+    { type: 'hint', code: 'FB', text: 'Fahrradmitnahme begrenzt möglich' },
+    { type: 'hint', code: 'EH', text: 'Fahrzeuggebundene Einstiegshilfe vorhanden' },
+  ],
+  regional: [
+    { type: 'hint', code: 'FB', text: 'Fahrradmitnahme begrenzt möglich' },
+    { type: 'hint', code: 'EH', text: 'Fahrzeuggebundene Einstiegshilfe vorhanden' },
+  ],
+  suburban: [
+    { type: 'hint', code: 'FB', text: 'Fahrradmitnahme begrenzt möglich' },
+  ],
+  bus: [],
+};
+
+// Line-wide warnings, a few rail lines are affected each day
+const LINE_WARNINGS = [
+  { summary: 'Bauarbeiten', text: 'Wegen Bauarbeiten verlängern sich die Fahrzeiten um einige Minuten.' },
+  { summary: 'Ersatzverkehr mit Bussen', text: 'Zwischen einzelnen Halten fahren Busse statt Züge. Bitte planen Sie mehr Zeit ein.' },
+  { summary: 'Reparatur an einem Stellwerk', text: 'Es kommt zu Verspätungen und einzelnen Teilausfällen.' },
+  { summary: 'Aufzug außer Betrieb', text: 'Ein Aufzug zum Bahnsteig ist derzeit außer Betrieb.' },
+];
+const LINE_WARNING_SHARE = 0.15;
+
+const ROUTE_FACTOR = 1.25;      // rail distance vs. great-circle distance
+const REGIONAL_SEGMENT_KM = 150; // regional-only journeys change trains about this often
+const MIN_FLIGHT_KM = 150;      // no flights between closer airports
+
+const HOME_CARRIERS: Record<string, string> = {
+  LHR: 'BA', CDG: 'AF', AMS: 'KL', MAD: 'IB', BCN: 'VY', FCO: 'AZ', VIE: 'OS', ZRH: 'LX',
+};
+
+const CARRIER_NAMES: Record<string, string> = {
+  LH: 'Lufthansa', EW: 'Eurowings', BA: 'British Airways', AF: 'Air France', KL: 'KLM',
+  IB: 'Iberia', VY: 'Vueling', AZ: 'ITA Airways', OS: 'Austrian', LX: 'Swiss',
+};
+
+const CLASS_FACTOR: Record<string, number> = {
+  ECONOMY: 1,
+  PREMIUM_ECONOMY: 1.7,
+  BUSINESS: 3.2,
+  FIRST: 5,
+};
+
+// ============ Module State ============
+
+let mockMode = false;
+let fixedStations: Map<string, MockStation> | undefined;
+const madeUpStations = new Map<string, MockStation>();
+
+/**
+ * Enable or disable the mock providers
+ */
+export function configureProviders(config: { mock: boolean }): void {
+  mockMode = config.mock;
+}
+
+/**
+ * Check whether upstream calls are answered by the mock providers
+ */
+export function isMockMode(): boolean {
+  return mockMode;
+}
+
+// ============ Random ============
+
+function hash(key: string): number {
+  // FNV-1a, same as getJourneyId
+  let value = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    value ^= key.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+/**
+ * Deterministic random numbers in [0, 1) for a seed key (mulberry32)
+ */
+export function seededRandom(key: string): () => number {
+  let state = hash(key);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function between(random: () => number, min: number, max: number): number {
+  return min + random() * (max - min);
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+// ============ Helpers ============
+
+function toTime(value: string | Date | undefined): number {
+  if (!value) return Date.now();
+  return (value instanceof Date ? value : new Date(value)).getTime();
+}
+
+// DB times carry the Berlin offset
+function iso(ms: number): string {
+  return toZonedIso(ms);
+}
+
+// Amadeus "at" format: local airport time without offset
+function localIso(ms: number, timeZone: string): string {
+  return toZonedIso(ms, timeZone).slice(0, 19);
+}
+
+function isoDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `PT${hours ? `${hours}H` : ''}${mins || !hours ? `${mins}M` : ''}`;
+}
+
+function roundTo(value: number, step: number): number {
+  return Math.round(value / step) * step;
+}
+
+function isAllowed(options: ProductFilter, product: Product): boolean {
+  return options[product] !== false;
+}
+
+// ============ Stations ============
+
+/**
+ * The fixed station list: main stations and airport stations
+ * Station search only finds these, like an unknown name finds nothing on DB.
+ */
+function knownStations(): Map<string, MockStation> {
+  if (!fixedStations) {
+    fixedStations = new Map(listMainStations().map(station => [station.id, station]));
+    for (const airport of AIRPORTS) {
+      if (!airport.railStation) continue;
+      fixedStations.set(`mock-${airport.iataCode}`, {
+        id: `mock-${airport.iataCode}`,
+        name: airport.railStation,
+        latitude: airport.latitude,
+        longitude: airport.longitude,
+      });
+    }
+  }
+  return fixedStations;
+}
+
+function remember(station: MockStation): MockStation {
+  madeUpStations.delete(station.id);
+  madeUpStations.set(station.id, station);
+  if (madeUpStations.size > MAX_MADE_UP_STATIONS) {
+    madeUpStations.delete(madeUpStations.keys().next().value!);
+  }
+  return station;
+}
+
+/**
+ * Fixed or previously made-up station by ID
+ */
+function findStation(id: string): MockStation | undefined {
+  const made = madeUpStations.get(id);
+  return knownStations().get(id) ?? (made && remember(made));
+}
+
+/**
+ * Made-up station somewhere in Germany, placed by its ID
+ */
+function madeUpStation(id: string, name: string): MockStation {
+  const existing = findStation(id);
+  if (existing) return existing;
+
+  const random = seededRandom(id);
+  return remember({
+    id,
+    name,
+    latitude: between(random, 47.6, 54.4),
+    longitude: between(random, 6.2, 14.6),
+  });
+}
+
+/**
+ * Made-up station on the outskirts of a city, e.g. "Berlin Nord" north of Berlin Hbf
+ */
+function outskirtsStation(center: MockStation, direction: string, [minKm, maxKm]: [number, number]): MockStation {
+  const name = `${center.name.split(/[ (]/)[0]} ${direction}`;
+  const id = `mock-${hash(normalizePlaceName(name)).toString(36)}`;
+  const existing = findStation(id);
+  if (existing) return existing;
+
+  const random = seededRandom(id);
+  const bearing = (BEARINGS[direction] + between(random, -30, 30)) * Math.PI / 180;
+  const km = between(random, minKm, maxKm);
+  const station = {
+    id,
+    name,
+    latitude: center.latitude + km / 111 * Math.cos(bearing),
+    longitude: center.longitude + km / (111 * Math.cos(center.latitude * Math.PI / 180)) * Math.sin(bearing),
+  };
+  return remember(station);
+}
+
+function stationById(id: string): MockStation {
+  return madeUpStation(id, `Halt ${id}`);
+}
+
+function toStop(station: MockStation): Stop {
+  return {
+    type: 'stop',
+    id: station.id,
+    name: station.name,
+    location: {
+      type: 'location',
+      latitude: station.latitude,
+      longitude: station.longitude,
+    },
+  };
+}
+
+/**
+ * Station to change trains at, near a point between two stations
+ */
+function transferStation(from: MockStation, to: MockStation, fraction: number): MockStation {
+  const latitude = from.latitude + (to.latitude - from.latitude) * fraction;
+  const longitude = from.longitude + (to.longitude - from.longitude) * fraction;
+
+  const nearest = nearestMainStation(latitude, longitude);
+  if (nearest && nearest.distanceKm < TRANSFER_RANGE_KM && nearest.id !== from.id && nearest.id !== to.id) {
+    return stationById(nearest.id);
+  }
+
+  const junction = JUNCTIONS
+    .map(j => ({ ...j, km: distanceKm(latitude, longitude, j.latitude, j.longitude) }))
+    .sort((a, b) => a.km - b.km)[0];
+  if (junction.km < TRANSFER_RANGE_KM) {
+    const id = `mock-${hash(normalizePlaceName(junction.name)).toString(36)}`;
+    return remember({ id, name: junction.name, latitude: junction.latitude, longitude: junction.longitude });
+  }
+
+  // Nowhere near a junction, e.g. abroad: a halt named after the nearest city
+  const id = `mock-${hash(`${from.id}>${to.id}@${fraction}`).toString(36)}`;
+  const town = (nearest?.name ?? from.name).split(/[ (]/)[0];
+  const suffix = HALT_SUFFIXES[hash(id) % HALT_SUFFIXES.length];
+  return remember({ id, name: `${town} ${suffix}`, latitude, longitude });
+}
+
+// ============ DB: Journeys ============
+
+function makeLine(product: Product, number: number): Line {
+  return toLine(product, product === 'suburban' ? `S ${number % 9 + 1}` : `${LINE_PREFIX[product]} ${number}`);
+}
+
+function toLine(product: Product, name: string): Line {
+  return {
+    type: 'line',
+    id: name.toLowerCase().replace(/\s+/g, '-'),
+    name,
+    mode: product === 'bus' ? 'bus' : 'train',
+    product,
+  };
+}
+
+function lineNumber(random: () => number, product: Product): number {
+  const ranges: Record<Product, [number, number]> = {
+    nationalExpress: [500, 1099],
+    national: [2000, 2399],
+    regionalExp: [1, 99],
+    regional: [10, 89],
+    suburban: [1, 9],
+    bus: [100, 899],
+  };
+  const [min, max] = ranges[product];
+  return Math.floor(between(random, min, max));
+}
+
+function delaySeconds(random: () => number): number {
+  const roll = random();
+  if (roll < 0.6) return 0;
+  if (roll < 0.85) return roundTo(between(random, 60, 300), 60);
+  return roundTo(between(random, 300, 900), 60);
+}
+
+function platform(random: () => number): string {
+  return String(Math.floor(between(random, 1, 13)));
+}
+
+/**
+ * Planned running time between two stations in minutes
+ */
+function runningMinutes(from: MockStation, to: MockStation, product: Product): number {
+  const km = Math.max(5, distanceKm(from.latitude, from.longitude, to.latitude, to.longitude) * ROUTE_FACTOR);
+  return roundTo(km / SPEED[product] * 60 + 5, 1);
+}
+
+/**
+ * Remarks for a trip: product hints, the line's warning of the day if it
+ * has one, and realtime status for cancellations and long delays
+ */
+function tripRemarks(line: Line, product: Product, plannedMs: number, delay: number, cancelled: boolean): Remark[] {
+  const remarks = [...HINTS[product]];
+
+  const day = iso(plannedMs).slice(0, 10);
+  const random = seededRandom(`${line.id}#${day}`);
+  if (product !== 'bus' && random() < LINE_WARNING_SHARE) {
+    remarks.push({
+      type: 'warning',
+      id: `mock-${hash(`${line.id}#${day}`).toString(36)}`,
+      ...pick(random, LINE_WARNINGS),
+      validFrom: iso(zonedTimeToUtc(`${day}T00:00`).getTime()),
+      validUntil: iso(zonedTimeToUtc(`${day}T23:59`).getTime()),
+    });
+  }
+
+  if (cancelled) {
+    remarks.push({ type: 'status', code: 'text.realtime.journey.cancelled', text: 'Fahrt fällt aus' });
+  } else if (delay >= 600) {
+    remarks.push({ type: 'status', text: 'Verspätung aus vorheriger Fahrt' });
+  }
+  return remarks;
+}
+
+function buildLeg(
+  random: () => number,
+  from: MockStation,
+  to: MockStation,
+  product: Product,
+  plannedDepartureMs: number
+): Leg {
+  const plannedArrivalMs = plannedDepartureMs + runningMinutes(from, to, product) * MINUTE;
+  const line = makeLine(product, lineNumber(random, product));
+
+  const departureDelay = delaySeconds(random);
+  // Trains make up a little time on the way
+  const arrivalDelay = Math.max(0, departureDelay - roundTo(between(random, 0, 180), 60));
+  const plannedDeparturePlatform = platform(random);
+  const plannedArrivalPlatform = platform(random);
+  const platformChanged = random() < 0.1;
+  const departurePlatform = platformChanged ? platform(random) : plannedDeparturePlatform;
+  const cancelled = random() < 0.02;
+
+  return {
+    tripId: ['mock', line.name, from.id, to.id, plannedDepartureMs].join('~'),
+    origin: toStop(from),
+    destination: toStop(to),
+    departure: iso(plannedDepartureMs + departureDelay * 1000),
+    plannedDeparture: iso(plannedDepartureMs),
+    departureDelay,
+    arrival: iso(plannedArrivalMs + arrivalDelay * 1000),
+    plannedArrival: iso(plannedArrivalMs),
+    arrivalDelay,
+    departurePlatform,
+    plannedDeparturePlatform,
+    arrivalPlatform: plannedArrivalPlatform,
+    plannedArrivalPlatform,
+    line,
+    direction: to.name,
+    cancelled,
+    remarks: tripRemarks(line, product, plannedDepartureMs, departureDelay, cancelled),
+  };
+}
+
+function chooseProduct(options: ProductFilter, km: number): Product | null {
+  const order: Product[] = km > 120
+    ? ['nationalExpress', 'national', 'regionalExp', 'regional', 'bus']
+    : km > 30
+      ? ['regionalExp', 'regional', 'suburban', 'bus']
+      : ['suburban', 'regional', 'bus'];
+  return order.find(product => isAllowed(options, product)) ?? null;
+}
+
+/**
+ * Build one journey departing at a timetable slot
+ * Seeded by route and departure, so refreshing it returns the same journey
+ */
+function buildJourney(
+  fromId: string,
+  toId: string,
+  viaId: string | undefined,
+  plannedDepartureMs: number,
+  options: JourneyOptions
+): Journey | null {
+  const random = seededRandom(`${fromId}|${toId}|${viaId ?? ''}|${plannedDepartureMs}`);
+  const route = [fromId, ...(viaId ? [viaId] : []), toId].map(stationById);
+  const changeMinutes = options.transferTime ?? 0;
+
+  // Split each route section into segments, one per train
+  const segments: Array<[MockStation, MockStation, Product]> = [];
+  for (let i = 0; i < route.length - 1; i++) {
+    const [from, to] = [route[i], route[i + 1]];
+    const km = distanceKm(from.latitude, from.longitude, to.latitude, to.longitude) * ROUTE_FACTOR;
+    const product = chooseProduct(options, km);
+    if (!product) return null;
+
+    const longDistance = product === 'nationalExpress' || product === 'national';
+    const parts = longDistance
+      ? (km > 300 && random() < 0.4 ? 2 : 1)
+      : Math.max(1, Math.ceil(km / REGIONAL_SEGMENT_KM));
+
+    const points = [from];
+    for (let p = 1; p < parts; p++) points.push(transferStation(from, to, p / parts));
+    points.push(to);
+
+    for (let p = 0; p < points.length - 1; p++) {
+      segments.push([points[p], points[p + 1], product]);
+    }
+  }
+
+  const legs: Leg[] = [];
+  let departureMs = plannedDepartureMs;
+  for (const [from, to, product] of segments) {
+    const leg = buildLeg(random, from, to, product, departureMs);
+    legs.push(leg);
+    departureMs = new Date(leg.plannedArrival).getTime() +
+      Math.max(changeMinutes, roundTo(between(random, 6, 16), 1)) * MINUTE;
+  }
+
+  const km = segments.reduce((sum, [from, to]) =>
+    sum + distanceKm(from.latitude, from.longitude, to.latitude, to.longitude) * ROUTE_FACTOR, 0);
+  const longDistance = segments.some(([, , product]) => product === 'nationalExpress' || product === 'national');
+  const amount = longDistance
+    ? Math.max(17.99, Math.round(km * 0.17 * between(random, 0.6, 1.3)) - 0.01)
+    : Math.max(3.5, Math.round(km * 0.14 * 10) / 10);
+
+  return {
+    type: 'journey',
+    legs,
+    refreshToken: ['mock', fromId, toId, viaId ?? '', plannedDepartureMs, JSON.stringify(tokenOptions(options))].join('~'),
+    price: options.tickets ? { amount, currency: 'EUR' } : undefined,
+  };
+}
+
+// Options that shape a journey, kept in its refresh token
+function tokenOptions(options: JourneyOptions): JourneyOptions {
+  const { nationalExpress, national, regionalExp, regional, suburban, bus, transferTime, tickets } = options;
+  return { nationalExpress, national, regionalExp, regional, suburban, bus, transferTime, tickets };
+}
+
+/**
+ * Hourly timetable slot at or after a time, offset per route
+ */
+function nextSlot(fromId: string, toId: string, atMs: number): number {
+  const offset = Math.floor(seededRandom(`${fromId}>${toId}`)() * 60) * MINUTE;
+  return Math.ceil((atMs - offset) / HOUR) * HOUR + offset;
+}
+
+/**
+ * Journeys from A to B, in the shape of the DB journeys endpoint
+ */
+export function mockJourneys(from: string, to: string, options: JourneyOptions = {}): JourneysResponse {
+  const results = options.results ?? 3;
+  const departures: number[] = [];
+
+  const [refType, refTime] = (options.earlierThan ?? options.laterThan ?? '').split('~').slice(1);
+  if (refType === 'earlier') {
+    const first = Number(refTime);
+    for (let i = results; i >= 1; i--) departures.push(first - i * HOUR);
+  } else if (refType === 'later') {
+    const start = Number(refTime) + HOUR;
+    for (let i = 0; i < results; i++) departures.push(start + i * HOUR);
+  } else if (options.arrival) {
+    // Latest slots that still arrive in time
+    const target = toTime(options.arrival);
+    let slot = nextSlot(from, to, target);
+    while (departures.length < results && slot > target - 48 * HOUR) {
+      const journey = buildJourney(from, to, options.via, slot, options);
+      if (journey && new Date(journey.legs[journey.legs.length - 1].plannedArrival).getTime() <= target) {
+        departures.unshift(slot);
+      }
+      slot -= HOUR;
+    }
+  } else {
+    const start = nextSlot(from, to, toTime(options.departure));
+    for (let i = 0; i < results; i++) departures.push(start + i * HOUR);
+  }
+
+  const journeys = departures
+    .map(slot => buildJourney(from, to, options.via, slot, options))
+    .filter((journey): journey is Journey => journey !== null);
+
+  return {
+    journeys,
+    earlierRef: departures.length ? `mock~earlier~${departures[0]}` : undefined,
+    laterRef: departures.length ? `mock~later~${departures[departures.length - 1]}` : undefined,
+    realtimeDataUpdatedAt: Math.floor(Date.now() / 1000),
+  };
+}
+
+/**
+ * Refresh a journey from its mock refresh token
+ */
+export function mockRefreshJourney(refreshToken: string): RefreshJourneyResponse {
+  const [, fromId, toId, viaId, departureMs, options] = refreshToken.split('~');
+  const journey = fromId && toId
+    ? buildJourney(fromId, toId, viaId || undefined, Number(departureMs), JSON.parse(options || '{}'))
+    : null;
+  if (!journey) {
+    throw new Error('DB API Error: 404 Not Found');
+  }
+
+  return {
+    journey,
+    realtimeDataUpdatedAt: Math.floor(Date.now() / 1000),
+  };
+}
+
+// ============ DB: Stations and Boards ============
+
+/**
+ * Station search on the fixed station list; unknown names find nothing
+ */
+export function mockLocations(query: string, options?: { results?: number }): Stop[] {
+  const key = normalizePlaceName(query);
+  return [...knownStations().values()]
+    .filter(station => normalizePlaceName(station.name).includes(key))
+    .sort((a, b) => a.name.length - b.name.length)
+    .slice(0, options?.results ?? 10)
+    .map(toStop);
+}
+
+/**
+ * Get a station by ID
+ * Unknown IDs answer 404 like DB, except made-up stations seen in earlier results
+ */
+export function mockStop(stopId: string): Stop {
+  const station = findStation(stopId);
+  if (!station) throw new UpstreamHttpError('DB API Error: 404 Not Found', 404, undefined, 'DB API');
+  return toStop(station);
+}
+
+function boardEntries(
+  kind: 'departures' | 'arrivals',
+  stopId: string,
+  options: BoardOptions
+): Array<Departure & { otherEnd: MockStation }> {
+  const station = stationById(stopId);
+  const start = toTime(options.when);
+  const end = start + (options.duration ?? 10) * MINUTE;
+  const others = [...knownStations().values()].filter(s => s.id !== stopId && !s.id.startsWith('mock-'));
+
+  const entries = BOARD_LINES.flatMap(([product, headway], index) => {
+    if (!isAllowed(options, product)) return [];
+
+    const random = seededRandom(`${stopId}#${kind}#${index}`);
+    const line = makeLine(product, lineNumber(random, product));
+    const otherEnd = product === 'nationalExpress' || product === 'national'
+      ? pick(random, others)
+      : outskirtsStation(station, pick(random, Object.keys(BEARINGS)), BOARD_RANGE_KM[product]);
+    const offset = Math.floor(random() * headway) * MINUTE;
+    const plannedPlatform = product === 'bus' ? null : platform(random);
+
+    const times: number[] = [];
+    for (let t = Math.ceil((start - offset) / (headway * MINUTE)) * headway * MINUTE + offset; t < end; t += headway * MINUTE) {
+      times.push(t);
+    }
+
+    return times.map(plannedMs => {
+      const tripRandom = seededRandom(`${line.id}@${plannedMs}`);
+      const delay = delaySeconds(tripRandom);
+      const cancelled = tripRandom() < 0.02;
+      const platformChanged = !!plannedPlatform && tripRandom() < 0.1;
+
+      // Trip IDs name the run from its first stop, as mockTrip() expects
+      const tripId = kind === 'departures'
+        ? ['mock', line.name, stopId, otherEnd.id, plannedMs]
+        : ['mock', line.name, otherEnd.id, stopId, plannedMs - runningMinutes(otherEnd, station, product) * MINUTE];
+
+      return {
+        tripId: tripId.join('~'),
+        direction: otherEnd.name,
+        line,
+        stop: toStop(station),
+        when: cancelled ? null : iso(plannedMs + delay * 1000),
+        plannedWhen: iso(plannedMs),
+        delay: cancelled ? null : delay,
+        platform: platformChanged ? platform(tripRandom) : plannedPlatform,
+        plannedPlatform,
+        remarks: tripRemarks(line, product, plannedMs, delay, cancelled),
+        otherEnd,
+      };
+    });
+  });
+
+  return entries
+    .sort((a, b) => a.plannedWhen.localeCompare(b.plannedWhen))
+    .slice(0, options.results ?? entries.length);
+}
+
+/**
+ * Departures at a station, in the shape of the DB departures endpoint
+ */
+export function mockDepartures(stopId: string, options: BoardOptions = {}): DeparturesResponse {
+  return {
+    departures: boardEntries('departures', stopId, options).map(({ otherEnd, ...departure }) => departure),
+    realtimeDataUpdatedAt: Math.floor(Date.now() / 1000),
+  };
+}
+
+/**
+ * Arrivals at a station, in the shape of the DB arrivals endpoint
+ */
+export function mockArrivals(stopId: string, options: BoardOptions = {}): ArrivalsResponse {
+  return {
+    arrivals: boardEntries('arrivals', stopId, options).map(({ otherEnd, direction, ...entry }): Arrival => ({
+      ...entry,
+      provenance: otherEnd.name,
+    })),
+    realtimeDataUpdatedAt: Math.floor(Date.now() / 1000),
+  };
+}
+
+// ============ DB: Trips ============
+
+function productOfLine(lineName: string): Product | undefined {
+  const prefix = lineName.split(' ')[0];
+  return (Object.keys(LINE_PREFIX) as Product[]).find(product => LINE_PREFIX[product] === prefix);
+}
+
+/**
+ * Stops between the ends of a trip, in order
+ * Long-distance trains stop at main stations along the way; regional trains
+ * and buses at evenly spaced halts, named after the nearest city.
+ */
+function intermediateStops(from: MockStation, to: MockStation, product: Product): MockStation[] {
+  if (product === 'nationalExpress' || product === 'national') {
+    return [...knownStations().values()]
+      .filter(station => !station.id.startsWith('mock-') && station.id !== from.id && station.id !== to.id)
+      .map(station => ({ station, ...alongRoute(from, to, station) }))
+      .filter(({ fraction, offsetKm }) => fraction > 0.05 && fraction < 0.95 && offsetKm < CORRIDOR_KM)
+      .sort((a, b) => a.fraction - b.fraction)
+      .slice(0, MAX_INTERMEDIATE_STOPS)
+      .map(({ station }) => station);
+  }
+
+  const km = distanceKm(from.latitude, from.longitude, to.latitude, to.longitude);
+  const count = Math.min(MAX_INTERMEDIATE_STOPS, Math.max(0, Math.round(km / STOP_SPACING_KM[product]) - 1));
+
+  return Array.from({ length: count }, (_, i) => {
+    const fraction = (i + 1) / (count + 1);
+    const latitude = from.latitude + (to.latitude - from.latitude) * fraction;
+    const longitude = from.longitude + (to.longitude - from.longitude) * fraction;
+    const id = `mock-${hash(`${from.id}>${to.id}#${i}`).toString(36)}`;
+    const town = (nearestMainStation(latitude, longitude)?.name ?? from.name).split(/[ (]/)[0];
+    const suffix = HALT_SUFFIXES[(hash(`${from.id}>${to.id}`) + i) % HALT_SUFFIXES.length];
+    return remember({ id, name: `${town} ${suffix}`, latitude, longitude });
+  });
+}
+
+/**
+ * Position of a station relative to the straight line between two others:
+ * share of the way along it, and distance from it in km
+ */
+function alongRoute(from: MockStation, to: MockStation, station: MockStation): { fraction: number; offsetKm: number } {
+  // Flat projection, good enough at German distances
+  const scale = Math.cos(from.latitude * Math.PI / 180);
+  const [dx, dy] = [(to.longitude - from.longitude) * scale, to.latitude - from.latitude];
+  const [px, py] = [(station.longitude - from.longitude) * scale, station.latitude - from.latitude];
+  const fraction = (px * dx + py * dy) / (dx * dx + dy * dy || 1);
+  const latitude = from.latitude + (to.latitude - from.latitude) * fraction;
+  const longitude = from.longitude + (to.longitude - from.longitude) * fraction;
+  return { fraction, offsetKm: distanceKm(latitude, longitude, station.latitude, station.longitude) };
+}
+
+/**
+ * A single trip with all stopovers, in the shape of the DB trips endpoint
+ * Trip IDs are "mock~<line>~<first stop>~<last stop>~<planned departure ms>"
+ * as handed out by the mock boards and journeys. The delay at the first stop
+ * matches the departure board.
+ */
+export function mockTrip(tripId: string): TripResponse {
+  const [prefix, lineName, fromId, toId, departureMs] = tripId.split('~');
+  const product = lineName ? productOfLine(lineName) : undefined;
+  if (prefix !== 'mock' || !product || !fromId || !toId || isNaN(Number(departureMs))) {
+    throw new UpstreamHttpError('DB API Error: 404 Not Found', 404, undefined, 'DB API');
+  }
+
+  const line = toLine(product, lineName);
+  const [from, to] = [stationById(fromId), stationById(toId)];
+  const route = [from, ...intermediateStops(from, to, product), to];
+  const startMs = Number(departureMs);
+  const totalMinutes = runningMinutes(from, to, product);
+
+  // Share of the running time up to each stop, by distance
+  const sections = route.slice(1).map((stop, i) =>
+    distanceKm(route[i].latitude, route[i].longitude, stop.latitude, stop.longitude));
+  const totalKm = sections.reduce((sum, km) => sum + km, 0) || 1;
+  let coveredKm = 0;
+
+  const random = seededRandom(`${line.id}@${startMs}`);
+  let delay = delaySeconds(random);
+  const cancelled = random() < 0.02;
+  const initialDelay = delay;
+
+  const stopovers = route.map((station, i): Stopover => {
+    if (i > 0) coveredKm += sections[i - 1];
+    const first = i === 0;
+    const last = i === route.length - 1;
+    const plannedArrivalMs = startMs + roundTo(totalMinutes * coveredKm / totalKm, 1) * MINUTE;
+    const plannedDepartureMs = first ? startMs : plannedArrivalMs + DWELL_MINUTES * MINUTE;
+    const arrivalDelay = delay;
+    // Delays grow or shrink a little from stop to stop
+    if (!first) delay = Math.max(0, delay + roundTo(between(random, -90, 120), 60));
+    const plannedPlatform = product === 'bus' ? null : platform(random);
+
+    return {
+      stop: toStop(station),
+      arrival: first || cancelled ? null : iso(plannedArrivalMs + arrivalDelay * 1000),
+      plannedArrival: first ? null : iso(plannedArrivalMs),
+      arrivalDelay: first || cancelled ? null : arrivalDelay,
+      arrivalPlatform: first ? null : plannedPlatform,
+      plannedArrivalPlatform: first ? null : plannedPlatform,
+      departure: last || cancelled ? null : iso(plannedDepartureMs + delay * 1000),
+      plannedDeparture: last ? null : iso(plannedDepartureMs),
+      departureDelay: last || cancelled ? null : delay,
+      departurePlatform: last ? null : plannedPlatform,
+      plannedDeparturePlatform: last ? null : plannedPlatform,
+      ...(cancelled && {
+        cancelled: true,
+        remarks: [{ type: 'status', code: 'text.realtime.stop.cancelled', text: 'Halt entfällt' }],
+      }),
+    };
+  });
+
+  const origin = stopovers[0];
+  const destination = stopovers[stopovers.length - 1];
+
+  return {
+    trip: {
+      id: tripId,
+      origin: origin.stop,
+      destination: destination.stop,
+      departure: origin.departure ?? origin.plannedDeparture!,
+      plannedDeparture: origin.plannedDeparture!,
+      departureDelay: origin.departureDelay,
+      arrival: destination.arrival ?? destination.plannedArrival!,
+      plannedArrival: destination.plannedArrival!,
+      arrivalDelay: destination.arrivalDelay,
+      departurePlatform: origin.departurePlatform,
+      plannedDeparturePlatform: origin.plannedDeparturePlatform,
+      arrivalPlatform: destination.arrivalPlatform,
+      plannedArrivalPlatform: destination.plannedArrivalPlatform,
+      line,
+      direction: to.name,
+      cancelled,
+      stopovers,
+      remarks: tripRemarks(line, product, startMs, initialDelay, cancelled),
+    },
+    realtimeDataUpdatedAt: Math.floor(Date.now() / 1000),
+  };
+}
+
+// ============ MOTIS ============
+
+function parseCoordinates(place: string): [number, number] {
+  const [lat, lon] = place.split(',').map(Number);
+  return [lat, lon];
+}
+
+function motisLeg(mode: string, from: string, to: string, startMs: number, minutes: number, routeShortName?: string): MotisLeg {
+  return {
+    mode,
+    from: { name: from, departure: iso(startMs) },
+    to: { name: to, arrival: iso(startMs + minutes * MINUTE) },
+    duration: minutes * 60,
+    routeShortName,
+  };
+}
+
+function motisItinerary(legs: MotisLeg[]): MotisItinerary {
+  const startTime = legs[0].from.departure;
+  const endTime = legs[legs.length - 1].to.arrival;
+  return {
+    duration: (new Date(endTime).getTime() - new Date(startTime).getTime()) / 1000,
+    startTime,
+    endTime,
+    transfers: Math.max(0, legs.filter(leg => leg.mode !== 'WALK').length - 1),
+    legs,
+  };
+}
+
+/**
+ * Intermodal plans between two coordinate pairs, in the shape of MOTIS /plan
+ * Offers a rail option via the nearest main stations and, for longer
+ * distances, a long-distance coach
+ */
+export function mockPlan(fromPlace: string, toPlace: string, options: {
+  time: string;
+  arriveBy?: boolean;
+}): MotisPlanResponse {
+  const [fromLat, fromLon] = parseCoordinates(fromPlace);
+  const [toLat, toLon] = parseCoordinates(toPlace);
+  const random = seededRandom(`${fromPlace}|${toPlace}|${options.time}`);
+  const km = distanceKm(fromLat, fromLon, toLat, toLon) * ROUTE_FACTOR;
+  const fromStation = nearestMainStation(fromLat, fromLon);
+  const toStation = nearestMainStation(toLat, toLon);
+
+  const plans: Array<Array<[string, string, string, number, string?]>> = [];
+
+  if (fromStation && toStation && fromStation.id !== toStation.id) {
+    const highSpeed = km > 150;
+    plans.push([
+      ['WALK', 'Start', fromStation.name, Math.round(fromStation.distanceKm * 12) + 5],
+      [
+        highSpeed ? 'HIGHSPEED_RAIL' : 'REGIONAL_RAIL',
+        fromStation.name,
+        toStation.name,
+        Math.round(km / (highSpeed ? SPEED.nationalExpress : SPEED.regionalExp) * 60) + 5,
+        highSpeed ? `ICE ${lineNumber(random, 'nationalExpress')}` : `RE ${lineNumber(random, 'regionalExp')}`,
+      ],
+      ['WALK', toStation.name, 'Ziel', Math.round(toStation.distanceKm * 12) + 5],
+    ]);
+  } else {
+    plans.push([['BUS', 'Start', 'Ziel', Math.round(km / SPEED.bus * 60) + 5, String(lineNumber(random, 'bus'))]]);
+  }
+
+  if (km > 100) {
+    plans.push([
+      ['WALK', 'Start', 'ZOB', 10],
+      ['COACH', 'ZOB', 'ZOB', Math.round(km / 75 * 60), `FLX ${Math.floor(between(random, 1, 99))}`],
+      ['WALK', 'ZOB', 'Ziel', 10],
+    ]);
+  }
+
+  const time = toTime(options.time);
+  const itineraries = plans.map(plan => {
+    const total = plan.reduce((sum, [, , , minutes]) => sum + minutes, 0);
+    const wait = roundTo(between(random, 2, 40), 1) * MINUTE;
+    let start = options.arriveBy ? time - total * MINUTE - wait : time + wait;
+
+    return motisItinerary(plan.map(([mode, from, to, minutes, line]) => {
+      const leg = motisLeg(mode, from, to, start, minutes, line);
+      start += minutes * MINUTE;
+      return leg;
+    }));
+  });
+
+  return { itineraries };
+}
+
+// ============ Amadeus ============
+
+function mockAirport(iataCode: string): {
+  iataCode: string;
+  latitude: number;
+  longitude: number;
+  timeZone: string;
+  germany: boolean;
+} {
+  const airport = AIRPORTS.find(a => a.iataCode === iataCode);
+  if (airport) {
+    return { ...airport, germany: airport.country === 'Germany' };
+  }
+  // Unknown airports are placed somewhere in Central Europe
+  const random = seededRandom(iataCode);
+  return {
+    iataCode,
+    latitude: between(random, 37, 60),
+    longitude: between(random, -8, 25),
+    timeZone: DEFAULT_TIME_ZONE,
+    germany: false,
+  };
+}
+
+function flightMinutes(km: number): number {
+  return roundTo(km / 780 * 60 + 35, 5);
+}
+
+function mockSegment(carrier: string, number: number, from: string, to: string, departureMs: number, minutes: number): Segment {
+  return {
+    departure: { iataCode: from, at: localIso(departureMs, mockAirport(from).timeZone) },
+    arrival: { iataCode: to, at: localIso(departureMs + minutes * MINUTE, mockAirport(to).timeZone) },
+    carrierCode: carrier,
+    number: String(number),
+    aircraft: { code: minutes > 150 ? '321' : '320' },
+    duration: isoDuration(minutes),
+    numberOfStops: 0,
+  };
+}
+
+function mockItinerary(
+  random: () => number,
+  carrier: string,
+  from: string,
+  to: string,
+  date: string,
+  departureMinute: number,
+  nonStop: boolean
+): Itinerary {
+  const origin = mockAirport(from);
+  const destination = mockAirport(to);
+  const start = zonedTimeToUtc(date, origin.timeZone).getTime() + departureMinute * MINUTE;
+  const number = Math.floor(between(random, 100, 2999));
+
+  // Connections go through a Lufthansa hub
+  const hub = ['FRA', 'MUC'].find(code => code !== from && code !== to);
+  if (nonStop || !hub) {
+    const minutes = flightMinutes(distanceKm(origin.latitude, origin.longitude, destination.latitude, destination.longitude));
+    return {
+      duration: isoDuration(minutes),
+      segments: [mockSegment(carrier, number, from, to, start, minutes)],
+    };
+  }
+
+  const via = mockAirport(hub);
+  const first = flightMinutes(distanceKm(origin.latitude, origin.longitude, via.latitude, via.longitude));
+  const layover = roundTo(between(random, 50, 110), 5);
+  const second = flightMinutes(distanceKm(via.latitude, via.longitude, destination.latitude, destination.longitude));
+
+  return {
+    duration: isoDuration(first + layover + second),
+    segments: [
+      mockSegment(carrier, number, from, hub, start, first),
+      mockSegment(carrier, number + 1, hub, to, start + (first + layover) * MINUTE, second),
+    ],
+  };
+}
+
+function basePrice(km: number): number {
+  return 35 + km * 0.05;
+}
+
+/**
+ * Flight offers, in the shape of the Amadeus flight-offers endpoint
+ */
+export function mockFlightSearch(options: {
+  origin: string;
+  destination: string;
+  departureDate: string;
+  returnDate?: string;
+  adults?: number;
+  children?: number;
+  travelClass?: string;
+  nonStop?: boolean;
+  maxResults?: number;
+}): FlightSearchResponse {
+  const origin = mockAirport(options.origin);
+  const destination = mockAirport(options.destination);
+  const km = distanceKm(origin.latitude, origin.longitude, destination.latitude, destination.longitude);
+  if (km < MIN_FLIGHT_KM) {
+    return { data: [], dictionaries: { carriers: {}, aircraft: {} } };
+  }
+
+  const random = seededRandom(
+    [options.origin, options.destination, options.departureDate, options.returnDate, options.travelClass].join('|')
+  );
+  const carriers = [...new Set([
+    'LH',
+    ...(origin.germany && destination.germany ? ['EW'] : []),
+    HOME_CARRIERS[options.origin],
+    HOME_CARRIERS[options.destination],
+  ].filter((code): code is string => !!code))];
+
+  const adults = options.adults ?? 1;
+  const children = options.children ?? 0;
+  const count = Math.min(options.maxResults ?? 10, 3 + Math.floor(random() * 4));
+  const departureMinutes = Array.from({ length: count }, () => roundTo(between(random, 6 * 60, 21 * 60), 5))
+    .sort((a, b) => a - b);
+
+  const data: FlightOffer[] = departureMinutes.map((minute, i) => {
+    const carrier = pick(random, carriers);
+    const nonStop = options.nonStop || random() < 0.7;
+    const itineraries = [mockItinerary(random, carrier, options.origin, options.destination, options.departureDate, minute, nonStop)];
+    if (options.returnDate) {
+      const returnMinute = roundTo(between(random, 6 * 60, 21 * 60), 5);
+      itineraries.push(mockItinerary(random, carrier, options.destination, options.origin, options.returnDate, returnMinute, nonStop));
+    }
+
+    const perAdult = Math.round(
+      basePrice(km) *
+      (CLASS_FACTOR[options.travelClass ?? 'ECONOMY'] ?? 1) *
+      between(random, 0.8, 1.6) *
+      (options.returnDate ? 1.9 : 1) *
+      (nonStop ? 1.15 : 1)
+    ) - 0.01;
+    const perChild = Math.round(perAdult * 0.75) - 0.01;
+    const total = (perAdult * adults + perChild * children).toFixed(2);
+
+    return {
+      id: String(i + 1),
+      source: 'MOCK',
+      price: { total, grandTotal: total, currency: 'EUR' },
+      itineraries,
+      validatingAirlineCodes: [carrier],
+      travelerPricings: [
+        ...Array.from({ length: adults }, () => ({ travelerType: 'ADULT', price: perAdult })),
+        ...Array.from({ length: children }, () => ({ travelerType: 'CHILD', price: perChild })),
+      ].map((traveler, t) => ({
+        travelerId: String(t + 1),
+        fareOption: 'STANDARD',
+        travelerType: traveler.travelerType,
+        price: { currency: 'EUR', total: traveler.price.toFixed(2) },
+      })),
+    };
+  });
+
+  return {
+    data,
+    dictionaries: {
+      carriers: Object.fromEntries(carriers.map(code => [code, CARRIER_NAMES[code] ?? code])),
+      aircraft: { '320': 'AIRBUS A320', '321': 'AIRBUS A321' },
+    },
+  };
+}
+
+/**
+ * Cheapest fare per day, in the shape of the Amadeus flight-dates endpoint
+ */
+export function mockFlightDates(options: {
+  origin: string;
+  destination: string;
+  departureDate?: string;
+}): FlightDatesResponse {
+  const origin = mockAirport(options.origin);
+  const destination = mockAirport(options.destination);
+  const km = distanceKm(origin.latitude, origin.longitude, destination.latitude, destination.longitude);
+  if (km < MIN_FLIGHT_KM) return { data: [], meta: { currency: 'EUR' } };
+
+  const [first, last] = (options.departureDate ?? today()).split(',');
+  const start = new Date(`${first}T00:00:00Z`).getTime();
+  const end = new Date(`${last ?? first}T00:00:00Z`).getTime() + (last ? 0 : 29 * 24 * HOUR);
+
+  const data = [];
+  for (let day = start; day <= end; day += 24 * HOUR) {
+    const date = new Date(day).toISOString().slice(0, 10);
+    const random = seededRandom(`${options.origin}|${options.destination}|${date}`);
+    // Fridays and Sundays are the expensive days
+    const weekdayFactor = [1.3, 1, 0.85, 0.9, 1.05, 1.35, 1.1][new Date(day).getUTCDay()];
+    data.push({
+      type: 'flight-date' as const,
+      origin: options.origin,
+      destination: options.destination,
+      departureDate: date,
+      price: { total: (Math.round(basePrice(km) * weekdayFactor * between(random, 0.75, 1.25)) - 0.01).toFixed(2) },
+    });
+  }
+
+  return { data, meta: { currency: 'EUR' } };
+}
+
+/**
+ * Airport search on the local airport table, in the shape of Amadeus locations
+ */
+export function mockAirportSearch(keyword: string): AirportLocation[] {
+  return searchAirportTable(keyword).slice(0, 10).map(airport => ({
+    type: 'location',
+    subType: 'AIRPORT',
+    name: airport.name.toUpperCase(),
+    detailedName: `${airport.city}/${airport.country}: ${airport.name}`,
+    id: `A${airport.iataCode}`,
+    iataCode: airport.iataCode,
+    address: {
+      cityName: airport.city.toUpperCase(),
+      countryName: airport.country.toUpperCase(),
+    },
+  }));
+}
@@ -0,0 +1,83 @@
+/**
+ * MOTIS Routing API Client
+ * Wraps europe.motis-project.de - open intermodal routing for Europe
+ * (Bahn, Fernbus, ÖPNV und Fußwege in einer Verbindung)
+ *
+ * No API key required
+ * Expects coordinates "lat,lon" as from/to places
+ * With MOCK_PROVIDERS=true plans come from ./mock-providers
+ */
+
+import { fetchWithRetry } from './rate-limit';
+import { isMockMode, mockPlan } from './mock-providers';
+
+const MOTIS_BASE_URL = 'https://europe.motis-project.de/api/v1';
+
+// ============ Types ============
+
+export interface MotisLeg {
+  mode: string; // e.g. WALK, BUS, REGIONAL_RAIL, HIGHSPEED_RAIL
+  from: { name: string; departure: string };
+  to: { name: string; arrival: string };
+  duration: number; // seconds
+  routeShortName?: string;
+}
+
+export interface MotisItinerary {
+  duration: number; // seconds
+  startTime: string;
+  endTime: string;
+  transfers: number;
+  legs: MotisLeg[];
+}
+
+export interface MotisPlanResponse {
+  itineraries?: MotisItinerary[];
+}
+
+// ============ API Functions ============
+
+/**
+ * Plan intermodal connections between two coordinate pairs
+ */
+export async function planConnections(fromPlace: string, toPlace: string, options: {
+  time: string;        // ISO datetime
+  arriveBy?: boolean;
+}): Promise<MotisPlanResponse> {
+  if (isMockMode()) return mockPlan(fromPlace, toPlace, options);
+
+  const params = new URLSearchParams({
+    fromPlace,
+    toPlace,
+    time: options.time,
+    arriveBy: String(options.arriveBy ?? false),
+  });
+
+  const response = await fetchWithRetry(
+    `${MOTIS_BASE_URL}/plan?${params}`,
+    { headers: { 'Accept': 'application/json' } },
+    { upstream: 'MOTIS API', retries: 1 }
+  );
+
+  return response.json();
+}
+
+// ============ Helper Functions ============
+
+/**
+ * Get distinct transport modes of an itinerary (without walking)
+ */
+export function getItineraryModes(itinerary: MotisItinerary): string[] {
+  return [...new Set(itinerary.legs
+    .filter(leg => leg.mode !== 'WALK')
+    .map(leg => leg.mode)
+  )];
+}
+
+/**
+ * Check whether an itinerary is bus-only (Fernbus/Regionalbus)
+ */
+export function isBusItinerary(itinerary: MotisItinerary): boolean {
+  const modes = getItineraryModes(itinerary);
+  return modes.length > 0 && modes.every(mode => mode === 'BUS' || mode === 'COACH');
+}
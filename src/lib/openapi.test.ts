@@ -0,0 +1,171 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { APIContext, APIRoute } from 'astro';
+import Ajv2020 from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import { buildOpenApiDocument, type JsonSchema } from './openapi';
+import { API_ROUTES } from './api-schemas';
+import { configureProviders } from './mock-providers';
+import { toZonedIso } from './time';
+import * as search from '../pages/api/transport/search';
+import * as departures from '../pages/api/transport/departures';
+import * as arrivals from '../pages/api/transport/arrivals';
+import * as board from '../pages/api/transport/board';
+import * as disruptions from '../pages/api/transport/disruptions';
+import * as journeys from '../pages/api/transport/journeys';
+import * as refresh from '../pages/api/transport/journeys/refresh';
+import * as trips from '../pages/api/transport/trips/[id]';
+import * as railCalendar from '../pages/api/transport/calendar';
+import * as airports from '../pages/api/flights/airports';
+import * as flightSearch from '../pages/api/flights/search';
+import * as flightCalendar from '../pages/api/flights/calendar';
+import * as connections from '../pages/api/connections';
+import * as compare from '../pages/api/compare';
+import * as assistant from '../pages/api/assistant';
+
+// Contract tests: every documented route is called in mock mode and its
+// response is validated against the generated OpenAPI document.
+
+const HANDLERS: Record<string, { GET: APIRoute }> = {
+  '/api/transport/search': search,
+  '/api/transport/departures': departures,
+  '/api/transport/arrivals': arrivals,
+  '/api/transport/board': board,
+  '/api/transport/disruptions': disruptions,
+  '/api/transport/journeys': journeys,
+  '/api/transport/journeys/refresh': refresh,
+  '/api/transport/trips/{id}': trips,
+  '/api/transport/calendar': railCalendar,
+  '/api/flights/airports': airports,
+  '/api/flights/search': flightSearch,
+  '/api/flights/calendar': flightCalendar,
+  '/api/connections': connections,
+  '/api/compare': compare,
+  '/api/assistant': assistant,
+};
+
+const inDays = (days: number) => toZonedIso(Date.now() + days * 24 * 60 * 60 * 1000).slice(0, 10);
+
+// Valid requests per route; tokens and trip IDs are taken from earlier responses
+const SAMPLES: Record<string, () => Promise<{ query: Record<string, string>; params?: Record<string, string> }>> = {
+  '/api/transport/search': async () => ({ query: { q: 'Berlin' } }),
+  '/api/transport/departures': async () => ({ query: { station: 'Berlin Hbf' } }),
+  '/api/transport/arrivals': async () => ({ query: { station: 'Berlin Hbf' } }),
+  '/api/transport/board': async () => ({ query: { station: 'Berlin Hbf', results: '5' } }),
+  '/api/transport/disruptions': async () => ({ query: { station: 'Berlin Hbf' } }),
+  '/api/transport/journeys': async () => ({ query: { from: 'Berlin', to: 'Hamburg', results: '3' } }),
+  '/api/transport/journeys/refresh': async () => {
+    const { body } = await call('/api/transport/journeys', { from: 'Berlin', to: 'Hamburg', results: '1' });
+    return { query: { token: body.journeys[0].refreshToken } };
+  },
+  '/api/transport/trips/{id}': async () => {
+    const { body } = await call('/api/transport/departures', { station: 'Berlin Hbf', results: '1' });
+    return { query: {}, params: { id: body.departures[0].tripId } };
+  },
+  '/api/transport/calendar': async () => ({ query: { from: 'Berlin', to: 'Hamburg', start: inDays(1), days: '3' } }),
+  '/api/flights/airports': async () => ({ query: { q: 'Berl' } }),
+  '/api/flights/search': async () => ({ query: { from: 'Berlin', to: 'München', date: inDays(7), return: inDays(10), doorToDoor: 'true' } }),
+  '/api/flights/calendar': async () => ({ query: { from: 'BER', to: 'MUC', start: inDays(1), days: '5' } }),
+  '/api/connections': async () => ({ query: { from: 'Berlin', to: 'Hamburg' } }),
+  '/api/compare': async () => ({ query: { from: 'Berlin', to: 'Hamburg', date: inDays(1) } }),
+  '/api/assistant': async () => ({ query: { q: 'Morgen früh von Köln nach Berlin' } }),
+};
+
+async function call(path: string, query: Record<string, string>, params: Record<string, string> = {}) {
+  const url = new URL(`http://localhost${path.replace(/\{(\w+)\}/g, (_, name: string) => params[name] ?? '')}`);
+  for (const [key, value] of Object.entries(query)) url.searchParams.set(key, value);
+
+  const request = new Request(url, { headers: { 'Accept-Language': 'en' } });
+  const response = await HANDLERS[path].GET({ url, request, params } as unknown as APIContext);
+  return { status: response.status, body: await response.json() };
+}
+
+const document = buildOpenApiDocument();
+const ajv = new Ajv2020({ strict: false, allErrors: true });
+addFormats(ajv);
+
+const schemas = (document.components as { schemas: Record<string, JsonSchema> }).schemas;
+
+const resolve = (schema: JsonSchema): JsonSchema =>
+  typeof schema.$ref === 'string' ? resolve(schemas[schema.$ref.split('/').pop()!]) : schema;
+
+// Documented objects are closed, so undocumented response fields fail too.
+// allOf parts are merged first, as closing each part would reject the others' fields.
+function closed(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(closed);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  const { allOf, ...rest } = schema as JsonSchema;
+  if (Array.isArray(allOf)) {
+    const parts = (allOf as JsonSchema[]).map(resolve);
+    return closed({
+      ...rest,
+      type: 'object',
+      properties: Object.assign({}, ...parts.map(part => part.properties)),
+      required: parts.flatMap(part => (part.required as string[] | undefined) ?? []),
+    });
+  }
+
+  const result = Object.fromEntries(Object.entries(schema).map(([key, value]) => [key, closed(value)]));
+  return 'properties' in result && !('additionalProperties' in result)
+    ? { ...result, additionalProperties: false }
+    : result;
+}
+
+const components = closed(document.components);
+
+// Response schemas only reference components, so they are compiled next to them
+function validate(schema: JsonSchema, body: unknown): string[] {
+  const check = ajv.compile({ ...(closed(schema) as JsonSchema), components });
+  return check(body) ? [] : (check.errors ?? []).map(error =>
+    `${error.instancePath || '/'} ${error.message}${'additionalProperty' in error.params ? `: ${error.params.additionalProperty}` : ''}`
+  );
+}
+
+function responseSchema(path: string, status: string): JsonSchema {
+  const operation = (document.paths as Record<string, { get: { responses: Record<string, JsonSchema> } }>)[path].get;
+  const content = operation.responses[status].content as Record<string, { schema: JsonSchema }>;
+  return content['application/json'].schema;
+}
+
+beforeAll(() => {
+  configureProviders({ mock: true });
+  vi.stubGlobal('fetch', async () => {
+    throw new Error('Contract tests must not reach the network');
+  });
+});
+
+afterAll(() => {
+  configureProviders({ mock: false });
+  vi.unstubAllGlobals();
+});
+
+describe('OpenAPI contract', () => {
+  it('has a handler and a sample request for every documented route', () => {
+    const paths = API_ROUTES.map(route => route.path);
+    expect(Object.keys(HANDLERS).sort()).toEqual([...paths].sort());
+    expect(Object.keys(SAMPLES).sort()).toEqual([...paths].sort());
+  });
+
+  it('compiles every response schema', () => {
+    for (const route of API_ROUTES) {
+      expect(() => validate(responseSchema(route.path, '200'), undefined)).not.toThrow();
+    }
+  });
+
+  describe.each(API_ROUTES.map(route => route.path))('%s', path => {
+    it('answers a valid request as documented', async () => {
+      const { query, params } = await SAMPLES[path]();
+      const { status, body } = await call(path, query, params);
+
+      expect(status, JSON.stringify(body)).toBe(200);
+      expect(validate(responseSchema(path, '200'), body)).toEqual([]);
+    });
+
+    it('answers a request without parameters with the error envelope', async () => {
+      const { status, body } = await call(path, {});
+
+      expect(status).toBe(400);
+      expect(validate(responseSchema(path, '400'), body)).toEqual([]);
+    });
+  });
+});
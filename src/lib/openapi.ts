@@ -0,0 +1,745 @@
+/**
+ * OpenAPI
+ * Builds the OpenAPI 3.1 document for /api/openapi.json and the docs page:
+ * - parameters come from the zod path and query schemas in api-schemas.ts
+ * - response schemas are declared below against the TypeScript types they
+ *   describe, so a new response field fails the type-check until documented
+ */
+
+import { z } from 'astro/zod';
+import { API_ROUTES, type ApiRouteSchema } from './api-schemas';
+import { today } from './time';
+import type { NormalizedJourney, NormalizedTrip, normalizeDeparture, normalizeArrival } from './transport-format';
+import type { Products, TransportRemark } from './db-transport';
+import type { LineDisruption } from './disruptions';
+import type { TransferRisk } from './transfer-risk';
+import type { TripPosition } from './trip-position';
+import type { JourneyChange, JourneyDiff } from './journey-diff';
+import type { FlightResult, FlightItinerary, FlightSegment, TravelerPrice } from './amadeus-flights';
+import type { AccessLeg, DoorToDoorFlight, DoorToDoorItinerary } from './airport-access';
+import type { CalendarDay } from './price-calendar';
+import type { ComparisonOption, ComparisonEndpoint, ProviderStatus } from './compare';
+import type { TripIntent } from './assistant-intent';
+import type { AssistantAnswer } from './assistant';
+import type { ApiErrorBody, FieldError } from './api-errors';
+
+// ============ Types ============
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+  style?: 'form';
+  explode?: boolean;
+}
+
+// Every key of T must be documented
+type Properties<T> = { [K in keyof T]-?: JsonSchema };
+
+type NormalizedDeparture = ReturnType<typeof normalizeDeparture>;
+type NormalizedArrival = ReturnType<typeof normalizeArrival>;
+type NormalizedStopover = NormalizedTrip['stopovers'][number];
+
+// ============ Config ============
+
+export const OPENAPI_PATH = '/api/openapi.json';
+
+const API_VERSION = '1.0.0';
+
+const TAG_DESCRIPTIONS: Record<ApiRouteSchema['tag'], string> = {
+  transport: 'Deutsche Bahn stations, boards and journeys',
+  flights: 'Flights via Amadeus',
+  connections: 'Door-to-door routing and mode comparison',
+  assistant: 'Free-text trip requests for the chat widget',
+};
+
+// ============ Schema Helpers ============
+
+const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+const string = (description?: string): JsonSchema => ({ type: 'string', ...(description && { description }) });
+const integer: JsonSchema = { type: 'integer' };
+const number: JsonSchema = { type: 'number' };
+const boolean: JsonSchema = { type: 'boolean' };
+const dateTime: JsonSchema = { type: 'string', format: 'date-time' };
+const array = (items: JsonSchema): JsonSchema => ({ type: 'array', items });
+const nullable = (schema: JsonSchema): JsonSchema => ({ oneOf: [schema, { type: 'null' }] });
+const oneOf = (...schemas: JsonSchema[]): JsonSchema => ({ oneOf: schemas });
+const constant = (value: string): JsonSchema => ({ type: 'string', const: value });
+const enumOf = (...values: string[]): JsonSchema => ({ type: 'string', enum: values });
+
+function object<T>(properties: Properties<T>, required: Array<keyof T> = []): JsonSchema {
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required }),
+  };
+}
+
+// Route-local response shapes without an exported type
+function plainObject(properties: Record<string, JsonSchema>, required: string[] = []): JsonSchema {
+  return object<Record<string, unknown>>(properties, required);
+}
+
+// ============ Components ============
+
+const price = object<{ amount: number; currency: string }>({ amount: number, currency: string() });
+
+const place = object<{ time: string; airport: string; terminal?: string }>(
+  { time: dateTime, airport: string('IATA code'), terminal: string() },
+  ['time', 'airport']
+);
+
+const SCHEMAS: Record<string, JsonSchema> = {
+  Error: object<ApiErrorBody>({
+    error: string('Localized message (de/en)'),
+    code: enumOf(
+      'INVALID_PARAMETER', 'LOCATION_NOT_FOUND', 'AMBIGUOUS_LOCATION', 'NOT_FOUND',
+      'UPSTREAM_RATE_LIMITED', 'UPSTREAM_UNAVAILABLE', 'INTERNAL_ERROR'
+    ),
+    provider: enumOf('db', 'amadeus', 'motis'),
+    parameter: string('First invalid parameter'),
+    detail: string('Technical detail in English'),
+    fields: array(ref('FieldError')),
+    alternatives: array(plainObject({ id: string(), name: string(), type: string() })),
+    retryAfter: { type: 'integer', description: 'Seconds until the upstream accepts requests again' },
+  }, ['error', 'code']),
+
+  FieldError: object<FieldError>({ parameter: string(), detail: string() }, ['parameter', 'detail']),
+
+  Station: plainObject({ id: string('DB station ID'), name: string() }, ['id', 'name']),
+
+  Products: object<Products>({
+    nationalExpress: boolean,
+    national: boolean,
+    regionalExp: boolean,
+    regional: boolean,
+    suburban: boolean,
+    bus: boolean,
+    ferry: boolean,
+    subway: boolean,
+    tram: boolean,
+    taxi: boolean,
+  }),
+
+  Departure: object<NormalizedDeparture>({
+    tripId: string(),
+    time: nullable(dateTime),
+    plannedTime: dateTime,
+    delay: string('e.g. "+5 min", empty if on time'),
+    delayMinutes: integer,
+    line: string(),
+    product: string(),
+    productIcon: string(),
+    platform: nullable(string()),
+    plannedPlatform: nullable(string()),
+    platformChanged: boolean,
+    cancelled: boolean,
+    remarks: array(ref('Remark')),
+    direction: string(),
+  }),
+
+  Arrival: object<NormalizedArrival>({
+    tripId: string(),
+    time: nullable(dateTime),
+    plannedTime: dateTime,
+    delay: string('e.g. "+5 min", empty if on time'),
+    delayMinutes: integer,
+    line: string(),
+    product: string(),
+    productIcon: string(),
+    platform: nullable(string()),
+    plannedPlatform: nullable(string()),
+    platformChanged: boolean,
+    cancelled: boolean,
+    remarks: array(ref('Remark')),
+    provenance: nullable(string('Where the train comes from')),
+  }),
+
+  Remark: object<TransportRemark>({
+    category: enumOf('hint', 'warning', 'cancellation', 'replacement_service', 'accessibility', 'bike_carriage'),
+    severity: enumOf('info', 'minor', 'major', 'critical'),
+    code: string('HAFAS remark code, e.g. "FB"'),
+    summary: string(),
+    text: string('Full text, if longer than the summary'),
+    validFrom: dateTime,
+    validUntil: dateTime,
+  }, ['category', 'severity', 'summary']),
+
+  LineDisruption: object<LineDisruption>({
+    line: string(),
+    product: string(),
+    severity: enumOf('info', 'minor', 'major', 'critical'),
+    trips: { type: 'integer', description: 'Trips of the line in the time window' },
+    cancelledTrips: integer,
+    remarks: array({
+      allOf: [ref('Remark'), plainObject({ trips: { type: 'integer', description: 'Trips with this remark' } })],
+    }),
+  }),
+
+  BoardEntry: oneOf(
+    { allOf: [ref('Departure'), plainObject({ type: constant('departure') }, ['type'])] },
+    { allOf: [ref('Arrival'), plainObject({ type: constant('arrival') }, ['type'])] }
+  ),
+
+  TransferRisk: object<TransferRisk>({
+    station: string(),
+    arrivingLine: string(),
+    departingLine: string(),
+    plannedBufferMinutes: integer,
+    realtimeBufferMinutes: integer,
+    platformChange: boolean,
+    risk: enumOf('safe', 'tight', 'likely_missed'),
+  }),
+
+  Journey: object<NormalizedJourney>({
+    id: string('Stable across pages and refreshes'),
+    departure: dateTime,
+    plannedDeparture: dateTime,
+    departureDelay: string(),
+    arrival: dateTime,
+    plannedArrival: dateTime,
+    arrivalDelay: string(),
+    duration: string(),
+    durationMinutes: integer,
+    transfers: integer,
+    transferRisks: array(ref('TransferRisk')),
+    reliability: { type: 'integer', minimum: 0, maximum: 100 },
+    price,
+    deutschlandticket: { type: 'boolean', description: 'Valid with the Deutschlandticket' },
+    origin: object<NormalizedJourney['origin']>({ id: string(), name: string(), platform: nullable(string()) }),
+    destination: object<NormalizedJourney['destination']>({ id: string(), name: string(), platform: nullable(string()) }),
+    products: array(object<NormalizedJourney['products'][number]>({
+      line: string(),
+      product: string(),
+      direction: string(),
+    })),
+    legs: array(ref('JourneyLeg')),
+    refreshToken: string('Token for /api/transport/journeys/refresh'),
+  }),
+
+  JourneyLeg: object<NormalizedJourney['legs'][number]>({
+    tripId: string('For /api/transport/trips/{id}, missing on walking legs'),
+    origin: string(),
+    destination: string(),
+    departure: dateTime,
+    arrival: dateTime,
+    line: string(),
+    product: string(),
+    direction: string(),
+    walking: boolean,
+    distance: integer,
+    departurePlatform: nullable(string()),
+    plannedDeparturePlatform: nullable(string()),
+    arrivalPlatform: nullable(string()),
+    plannedArrivalPlatform: nullable(string()),
+    departureDelay: string(),
+    arrivalDelay: string(),
+    cancelled: boolean,
+    remarks: array(ref('Remark')),
+  }),
+
+  Trip: object<NormalizedTrip>({
+    id: string(),
+    line: string(),
+    product: string(),
+    productIcon: string(),
+    direction: string(),
+    origin: string(),
+    destination: string(),
+    departure: dateTime,
+    plannedDeparture: dateTime,
+    arrival: dateTime,
+    plannedArrival: dateTime,
+    cancelled: boolean,
+    position: ref('TripPosition'),
+    stopovers: array(ref('Stopover')),
+    remarks: array(ref('Remark')),
+  }),
+
+  Stopover: object<NormalizedStopover>({
+    id: string('DB station ID'),
+    name: string(),
+    arrival: nullable(dateTime),
+    plannedArrival: nullable(dateTime),
+    arrivalDelay: string(),
+    departure: nullable(dateTime),
+    plannedDeparture: nullable(dateTime),
+    departureDelay: string(),
+    platform: nullable(string()),
+    plannedPlatform: nullable(string()),
+    platformChanged: boolean,
+    cancelled: boolean,
+    passed: { type: 'boolean', description: 'The train has left this stop' },
+    remarks: array(ref('Remark')),
+  }),
+
+  TripPosition: object<TripPosition>({
+    status: enumOf('not_started', 'at_stop', 'between_stops', 'finished', 'cancelled'),
+    previousStop: string('Last stop served, or the current one when at_stop'),
+    nextStop: string(),
+    progress: { type: 'number', minimum: 0, maximum: 1, description: 'Between previousStop and nextStop' },
+    latitude: number,
+    longitude: number,
+    source: enumOf('realtime', 'estimated'),
+  }),
+
+  JourneyDiff: object<JourneyDiff>({
+    baseline: enumOf('previous', 'planned'),
+    changed: boolean,
+    changes: array(ref('JourneyChange')),
+  }),
+
+  JourneyChange: oneOf(
+    object<Extract<JourneyChange, { type: 'delay' }>>({
+      type: constant('delay'),
+      leg: integer,
+      station: string(),
+      event: enumOf('departure', 'arrival'),
+      delayMinutes: integer,
+      previousDelayMinutes: integer,
+    }),
+    object<Extract<JourneyChange, { type: 'platform' }>>({
+      type: constant('platform'),
+      leg: integer,
+      station: string(),
+      event: enumOf('departure', 'arrival'),
+      platform: nullable(string()),
+      previousPlatform: nullable(string()),
+    }),
+    object<Extract<JourneyChange, { type: 'cancelled' }>>({
+      type: constant('cancelled'),
+      leg: integer,
+      line: string(),
+    }),
+    object<Extract<JourneyChange, { type: 'transfer_broken' }>>({
+      type: constant('transfer_broken'),
+      leg: integer,
+      station: string(),
+      bufferMinutes: integer,
+    })
+  ),
+
+  FlightSegment: object<FlightSegment>({
+    departure: plainObject({ iataCode: string(), terminal: string(), at: dateTime }),
+    arrival: plainObject({ iataCode: string(), terminal: string(), at: dateTime }),
+    airline: string(),
+    flightNumber: string(),
+    duration: string('ISO 8601 duration, e.g. "PT1H10M"'),
+  }),
+
+  FlightItinerary: object<FlightItinerary>({
+    direction: enumOf('outbound', 'inbound'),
+    departure: place,
+    arrival: place,
+    duration: string(),
+    durationMinutes: { type: 'integer', description: 'Including layovers' },
+    stops: integer,
+    segments: array(ref('FlightSegment')),
+  }),
+
+  TravelerPrice: object<TravelerPrice>({
+    travelerId: string(),
+    travelerType: string('ADULT, CHILD, HELD_INFANT, ...'),
+    price: number,
+    currency: string(),
+  }),
+
+  FlightOffer: {
+    allOf: [
+      object<FlightResult>({
+        id: string(),
+        price: { type: 'number', description: 'Total for all travellers and both directions' },
+        currency: string(),
+        departure: place,
+        arrival: place,
+        duration: string(),
+        durationMinutes: integer,
+        stops: integer,
+        airline: string(),
+        airlineCode: string(),
+        flightNumber: string(),
+        stopover: string(),
+        segments: array(ref('FlightSegment')),
+        outbound: ref('FlightItinerary'),
+        inbound: nullable(ref('FlightItinerary')),
+        travelers: array(ref('TravelerPrice')),
+      }),
+      {
+        description: 'Door-to-door fields of the outbound itinerary, only with doorToDoor=true',
+        ...object<Omit<DoorToDoorFlight, keyof FlightResult>>({
+          doorToDoorMinutes: { type: 'integer', description: 'From the access leg departure to the egress leg arrival' },
+          doorToDoorDeparture: dateTime,
+          doorToDoorArrival: dateTime,
+          access: nullable(ref('AccessLeg')),
+          egress: nullable(ref('AccessLeg')),
+          buffers: ref('AirportBuffers'),
+          inboundDoorToDoor: nullable(ref('DoorToDoorItinerary')),
+        }),
+      },
+    ],
+  },
+
+  DoorToDoorItinerary: object<DoorToDoorItinerary>({
+    departure: dateTime,
+    arrival: dateTime,
+    minutes: integer,
+    access: nullable(ref('AccessLeg')),
+    egress: nullable(ref('AccessLeg')),
+    buffers: ref('AirportBuffers'),
+  }, ['departure', 'arrival', 'minutes', 'access', 'egress', 'buffers']),
+
+  AirportBuffers: plainObject({ checkInMinutes: integer, arrivalMinutes: integer }, ['checkInMinutes', 'arrivalMinutes']),
+
+  AccessLeg: object<AccessLeg>({
+    direction: enumOf('access', 'egress'),
+    from: string(),
+    to: string(),
+    departure: nullable(dateTime),
+    arrival: nullable(dateTime),
+    durationMinutes: integer,
+    lines: array(string()),
+    estimated: { type: 'boolean', description: 'Based on typical transfer time instead of a live journey' },
+  }),
+
+  CalendarDay: object<CalendarDay>({
+    date: { type: 'string', format: 'date' },
+    price: nullable(number),
+    currency: string(),
+    failed: { type: 'boolean', description: 'The search for this day failed, so a fare may exist' },
+  }),
+
+  ComparisonOption: object<ComparisonOption>({
+    id: string(),
+    mode: enumOf('train', 'flight', 'bus', 'transit'),
+    source: enumOf('db', 'amadeus', 'motis'),
+    departure: dateTime,
+    arrival: dateTime,
+    duration: string(),
+    durationMinutes: { type: 'integer', description: 'Door-to-door' },
+    transfers: integer,
+    price: nullable(price),
+    lines: array(string()),
+  }),
+
+  ComparisonEndpoint: object<ComparisonEndpoint>({
+    name: string(),
+    stopId: string('DB station ID'),
+    coordinates: string('"lat,lon"'),
+    airport: string('IATA code'),
+  }),
+
+  ProviderStatus: object<ProviderStatus>({
+    status: enumOf('ok', 'error', 'skipped'),
+    count: integer,
+    message: string(),
+  }),
+
+  TripIntent: object<TripIntent>({
+    origin: string('Place name as written'),
+    destination: string('Place name as written'),
+    date: { type: 'string', format: 'date' },
+    time: string('HH:MM, Europe/Berlin'),
+    timeKind: enumOf('departure', 'arrival'),
+    modes: array(enumOf('train', 'flight', 'bus')),
+    maxTransfers: integer,
+    maxPrice: { type: 'number', description: 'EUR' },
+    deutschlandticket: boolean,
+    sort: enumOf('duration', 'price', 'departure'),
+    language: enumOf('de', 'en'),
+  }, ['timeKind', 'modes', 'deutschlandticket', 'sort', 'language']),
+
+  AssistantAnswer: object<AssistantAnswer>({
+    status: enumOf('ok', 'incomplete', 'needs_clarification', 'no_results'),
+    parser: string('Intent parser used, e.g. "rules"'),
+    intent: ref('TripIntent'),
+    summary: string('Short answer in the language of the request'),
+    from: ref('ComparisonEndpoint'),
+    to: ref('ComparisonEndpoint'),
+    date: { type: 'string', format: 'date' },
+    time: string('HH:MM, Europe/Berlin'),
+    options: array(ref('ComparisonOption')),
+    providers: plainObject({
+      db: ref('ProviderStatus'),
+      amadeus: ref('ProviderStatus'),
+      motis: ref('ProviderStatus'),
+    }),
+    missing: array(enumOf('origin', 'destination')),
+    clarification: plainObject({
+      input: string(),
+      alternatives: array(plainObject({ id: string(), name: string(), type: string() })),
+    }),
+  }, ['status', 'parser', 'intent', 'summary', 'options']),
+};
+
+const mockNotice = {
+  mock: { type: 'boolean', description: 'Set when Amadeus is not configured or mock providers are enabled' },
+  message: string(),
+};
+
+const calendar = {
+  days: array(ref('CalendarDay')),
+  cheapest: nullable(ref('CalendarDay')),
+};
+
+// 200 response body per route
+const RESPONSES: Record<string, JsonSchema> = {
+  '/api/transport/search': array(plainObject({
+    id: string(),
+    name: string(),
+    lat: number,
+    lng: number,
+    products: ref('Products'),
+  })),
+  '/api/transport/departures': plainObject({
+    station: ref('Station'),
+    departures: array(ref('Departure')),
+    updatedAt: nullable(integer),
+  }),
+  '/api/transport/arrivals': plainObject({
+    station: ref('Station'),
+    arrivals: array(ref('Arrival')),
+    updatedAt: nullable(integer),
+  }),
+  '/api/transport/board': plainObject({
+    station: ref('Station'),
+    entries: array(ref('BoardEntry')),
+    updatedAt: nullable(integer),
+  }),
+  '/api/transport/disruptions': plainObject({
+    station: ref('Station'),
+    severity: nullable(enumOf('info', 'minor', 'major', 'critical')),
+    lines: array(ref('LineDisruption')),
+    updatedAt: nullable(integer),
+  }),
+  '/api/transport/journeys': plainObject({
+    query: plainObject({
+      from: ref('Station'),
+      to: ref('Station'),
+      via: array(ref('Station')),
+      departure: nullable(string()),
+      arrival: nullable(string()),
+      transferTime: nullable(integer),
+      products: nullable(ref('Products')),
+    }),
+    journeys: array(ref('Journey')),
+    earlierRef: nullable(string()),
+    laterRef: nullable(string()),
+  }),
+  '/api/transport/journeys/refresh': plainObject({
+    journey: ref('Journey'),
+    diff: ref('JourneyDiff'),
+    snapshot: string('Pass as `since` to the next refresh'),
+    updatedAt: nullable(integer),
+  }),
+  '/api/transport/trips/{id}': plainObject({
+    trip: ref('Trip'),
+    updatedAt: nullable(integer),
+  }),
+  '/api/transport/calendar': plainObject({
+    from: ref('Station'),
+    to: ref('Station'),
+    ...calendar,
+  }),
+  '/api/flights/airports': array(plainObject({
+    name: string(),
+    iataCode: string(),
+    city: string(),
+    country: string(),
+  })),
+  '/api/flights/search': plainObject({
+    flights: array(ref('FlightOffer')),
+    origin: string('IATA code'),
+    destination: string('IATA code'),
+    ...mockNotice,
+  }),
+  '/api/flights/calendar': plainObject({
+    origin: string('IATA code'),
+    destination: string('IATA code'),
+    ...calendar,
+    ...mockNotice,
+  }),
+  '/api/connections': plainObject({
+    von: string(),
+    nach: string(),
+    datum: string(),
+    anzahl: integer,
+    verbindungen: array(plainObject({
+      abfahrt: string('HH:MM'),
+      ankunft: string('HH:MM'),
+      abfahrtIso: dateTime,
+      ankunftIso: dateTime,
+      dauer: string(),
+      umstiege: integer,
+      verkehrsmittel: array(string()),
+      stationen: array(plainObject({
+        von: string(),
+        nach: string(),
+        modus: string(),
+        abfahrt: string('HH:MM'),
+        ankunft: string('HH:MM'),
+        abfahrtIso: dateTime,
+        ankunftIso: dateTime,
+      })),
+    })),
+  }),
+  '/api/compare': plainObject({
+    from: ref('ComparisonEndpoint'),
+    to: ref('ComparisonEndpoint'),
+    date: string(),
+    time: string(),
+    options: array(ref('ComparisonOption')),
+    providers: plainObject({
+      db: ref('ProviderStatus'),
+      amadeus: ref('ProviderStatus'),
+      motis: ref('ProviderStatus'),
+    }),
+  }),
+  '/api/assistant': ref('AssistantAnswer'),
+};
+
+// Routes that can also answer as Server-Sent Events
+const EVENT_STREAMS: Record<string, string> = {
+  '/api/assistant': 'With stream=true: progress, results (per provider), answer (AssistantAnswer) and error events, data is JSON',
+};
+
+const ERROR_RESPONSES: Record<string, string> = {
+  '400': 'Invalid parameter or unknown location',
+  '404': 'Not found, e.g. an expired tripId',
+  '409': 'Ambiguous location, see alternatives',
+  '429': 'Upstream rate limited, see Retry-After',
+  '502': 'Upstream unavailable',
+  '500': 'Internal error',
+};
+
+// ============ Zod Conversion ============
+
+/**
+ * JSON Schema for a query param schema
+ * Covers what api-schemas.ts uses: strings, coerced numbers, enums, arrays,
+ * optional/default wrappers and refinements.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return zodToJsonSchema(schema.unwrap());
+  }
+  if (schema instanceof z.ZodDefault) {
+    const value = schema._def.defaultValue;
+    return {
+      ...zodToJsonSchema(schema.removeDefault()),
+      // Dates default to today, which would go stale in a static document
+      ...(value !== today && { default: value() }),
+    };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return zodToJsonSchema(schema.innerType());
+  }
+  if (schema instanceof z.ZodString) {
+    const result: JsonSchema = { type: 'string' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'regex') result.pattern = check.regex.source;
+      if (check.kind === 'min') result.minLength = check.value;
+      if (check.kind === 'max') result.maxLength = check.value;
+    }
+    return result;
+  }
+  if (schema instanceof z.ZodNumber) {
+    const result: JsonSchema = { type: schema.isInt ? 'integer' : 'number' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') result.minimum = check.value;
+      if (check.kind === 'max') result.maximum = check.value;
+    }
+    return result;
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: schema.options };
+  }
+  if (schema instanceof z.ZodArray) {
+    return {
+      type: 'array',
+      items: zodToJsonSchema(schema.element),
+      ...(schema._def.maxLength && { maxItems: schema._def.maxLength.value }),
+    };
+  }
+  return {};
+}
+
+function toParameters(schema: z.AnyZodObject | undefined, location: OpenApiParameter['in']): OpenApiParameter[] {
+  return Object.entries((schema?.shape ?? {}) as z.ZodRawShape).map(([name, field]) => {
+    const schema = zodToJsonSchema(field);
+    return {
+      name,
+      in: location,
+      required: location === 'path' || !field.isOptional(),
+      ...(field.description && { description: field.description }),
+      schema,
+      ...(schema.type === 'array' && { style: 'form', explode: true }),
+    };
+  });
+}
+
+// ============ API Functions ============
+
+/**
+ * Parameters of a documented route, for the docs page
+ */
+export function getRouteParameters(route: ApiRouteSchema): OpenApiParameter[] {
+  return [...toParameters(route.params, 'path'), ...toParameters(route.query, 'query')];
+}
+
+/**
+ * The full OpenAPI 3.1 document
+ */
+export function buildOpenApiDocument(serverUrl?: string): JsonSchema {
+  const paths = Object.fromEntries(API_ROUTES.map(route => [route.path, {
+    get: {
+      summary: route.summary,
+      tags: [route.tag],
+      operationId: route.path
+        .replace(/^\/api\//, '')
+        .replace(/\/\{\w+\}/g, '')
+        .replace(/\/(\w)/g, (_, c: string) => c.toUpperCase()),
+      parameters: [
+        ...getRouteParameters(route),
+        {
+          name: 'lang',
+          in: 'query',
+          required: false,
+          description: 'Language of error messages, default from Accept-Language',
+          schema: { type: 'string', enum: ['de', 'en'] },
+        },
+      ],
+      responses: {
+        '200': {
+          description: 'OK',
+          content: {
+            'application/json': { schema: RESPONSES[route.path] ?? {} },
+            ...(EVENT_STREAMS[route.path] && {
+              'text/event-stream': { schema: string(EVENT_STREAMS[route.path]) },
+            }),
+          },
+        },
+        ...Object.fromEntries(Object.entries(ERROR_RESPONSES).map(([status, description]) => [status, {
+          description,
+          content: { 'application/json': { schema: ref('Error') } },
+        }])),
+      },
+    },
+  }]));
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Reiseplaner API',
+      version: API_VERSION,
+      description: 'Train, flight and bus connections in Germany. Errors share one envelope, see the Error schema.',
+    },
+    ...(serverUrl && { servers: [{ url: serverUrl }] }),
+    tags: Object.entries(TAG_DESCRIPTIONS).map(([name, description]) => ({ name, description })),
+    paths,
+    components: { schemas: SCHEMAS },
+  };
+}
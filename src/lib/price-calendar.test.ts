@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getRailPriceCalendar } from './price-calendar';
+import { findJourneys, type JourneysResponse } from './db-transport';
+import { UpstreamHttpError } from './rate-limit';
+
+vi.mock('./db-transport', () => ({ findJourneys: vi.fn() }));
+
+const search = vi.mocked(findJourneys);
+
+const fare = (amount: number) =>
+  ({ journeys: [{ type: 'journey', legs: [], price: { amount, currency: 'EUR' } }] }) as unknown as JourneysResponse;
+
+afterEach(() => {
+  search.mockReset();
+  vi.restoreAllMocks();
+});
+
+describe('getRailPriceCalendar', () => {
+  it('marks days whose search failed', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    search
+      .mockResolvedValueOnce(fare(39.9))
+      .mockRejectedValueOnce(new UpstreamHttpError('DB API Error: 503', 503, undefined, 'DB API'))
+      .mockResolvedValueOnce({ journeys: [] } as unknown as JourneysResponse);
+
+    const calendar = await getRailPriceCalendar('8011160', '8002549', { start: '2025-06-01', days: 3 });
+
+    expect(calendar.days).toEqual([
+      { date: '2025-06-01', price: 39.9, currency: 'EUR', failed: false },
+      { date: '2025-06-02', price: null, currency: 'EUR', failed: true },
+      { date: '2025-06-03', price: null, currency: 'EUR', failed: false },
+    ]);
+    expect(calendar.cheapest?.date).toBe('2025-06-01');
+  });
+
+  it('keeps the upstream status if every day failed', async () => {
+    search.mockRejectedValue(new UpstreamHttpError('DB API Error: 429', 429, 30000, 'DB API'));
+
+    await expect(getRailPriceCalendar('8011160', '8002549', { start: '2025-06-01', days: 3 }))
+      .rejects.toMatchObject({ name: 'UpstreamHttpError', status: 429, retryAfterMs: 30000, upstream: 'DB API' });
+  });
+
+  it('reports other failures on every day as upstream unavailable', async () => {
+    search.mockRejectedValue(new TypeError('fetch failed'));
+
+    await expect(getRailPriceCalendar('8011160', '8002549', { start: '2025-06-01', days: 3 }))
+      .rejects.toMatchObject({ name: 'UpstreamHttpError', status: 0, upstream: 'DB API' });
+  });
+});
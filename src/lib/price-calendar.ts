@@ -0,0 +1,137 @@
+/**
+ * Price Calendar
+ * Cheapest fare per day for a city pair, for the "günstigster Tag" view:
+ * - flights: Amadeus flight-dates (one request for the whole range)
+ * - rail: samples DB journeys with tickets per day (one request per day)
+ */
+
+import { findJourneys } from './db-transport';
+import { getFlightDates } from './amadeus-flights';
+import { toOffsetIso } from './time';
+import { UpstreamHttpError } from './rate-limit';
+
+// ============ Types ============
+
+export interface CalendarDay {
+  date: string; // YYYY-MM-DD
+  price: number | null; // null if no fare was found
+  currency: string;
+  failed: boolean; // the search for this day failed, so a fare may exist
+}
+
+export interface PriceCalendar {
+  days: CalendarDay[];
+  cheapest: CalendarDay | null;
+}
+
+// ============ Config ============
+
+export const MAX_FLIGHT_CALENDAR_DAYS = 60;
+export const MAX_RAIL_CALENDAR_DAYS = 14; // each day costs one DB request
+
+// ============ Helpers ============
+
+/**
+ * List consecutive dates starting at a YYYY-MM-DD date
+ */
+export function getDateRange(start: string, days: number): string[] {
+  const first = new Date(`${start}T00:00:00Z`);
+  return Array.from({ length: days }, (_, i) => {
+    const date = new Date(first);
+    date.setUTCDate(first.getUTCDate() + i);
+    return date.toISOString().slice(0, 10);
+  });
+}
+
+function toCalendar(days: CalendarDay[]): PriceCalendar {
+  const priced = days.filter(day => day.price !== null);
+  return {
+    days,
+    cheapest: priced.length > 0
+      ? priced.reduce((min, day) => (day.price! < min.price! ? day : min))
+      : null,
+  };
+}
+
+// ============ API Functions ============
+
+/**
+ * Cheapest one-way flight per day between two airports
+ */
+export async function getFlightPriceCalendar(
+  origin: string,
+  destination: string,
+  options: { start: string; days: number }
+): Promise<PriceCalendar> {
+  const dates = getDateRange(options.start, Math.min(options.days, MAX_FLIGHT_CALENDAR_DAYS));
+  const response = await getFlightDates({
+    origin,
+    destination,
+    departureDate: `${dates[0]},${dates[dates.length - 1]}`,
+    oneWay: true,
+  });
+
+  const currency = response.meta?.currency ?? 'EUR';
+  const prices = new Map(
+    response.data.map(entry => [entry.departureDate, parseFloat(entry.price.total)])
+  );
+
+  return toCalendar(dates.map(date => ({
+    date,
+    price: prices.get(date) ?? null,
+    currency,
+    failed: false, // one request for all days, so it fails as a whole
+  })));
+}
+
+/**
+ * Cheapest train fare per day between two DB stations
+ * Samples the journeys departing from `time` on each day; days whose search
+ * fails are marked as failed. If every day fails, the first error is thrown.
+ */
+export async function getRailPriceCalendar(
+  fromId: string,
+  toId: string,
+  options: { start: string; days: number; time?: string } // time is Europe/Berlin
+): Promise<PriceCalendar> {
+  const dates = getDateRange(options.start, Math.min(options.days, MAX_RAIL_CALENDAR_DAYS));
+  const time = options.time ?? '06:00';
+
+  const settled = await Promise.allSettled(dates.map(date =>
+    findJourneys(fromId, toId, {
+      departure: toOffsetIso(`${date}T${time}`),
+      results: 5,
+      tickets: true,
+    })
+  ));
+
+  // Keep the upstream status (e.g. 429 with Retry-After) if every day failed
+  if (settled.every(result => result.status === 'rejected')) {
+    const { reason } = settled[0] as PromiseRejectedResult;
+    if (reason instanceof UpstreamHttpError) throw reason;
+    throw new UpstreamHttpError(`DB API Error: ${reason instanceof Error ? reason.message : reason}`, 0, undefined, 'DB API');
+  }
+
+  return toCalendar(dates.map((date, i) => {
+    const result = settled[i];
+    if (result.status === 'rejected') {
+      console.error(`Rail calendar ${date} failed:`, result.reason);
+      return { date, price: null, currency: 'EUR', failed: true };
+    }
+
+    const fares = result.value.journeys
+      .map(journey => journey.price)
+      .filter((price): price is NonNullable<typeof price> => !!price);
+    const cheapest = fares.reduce<typeof fares[number] | null>(
+      (min, price) => (!min || price.amount < min.amount ? price : min),
+      null
+    );
+
+    return {
+      date,
+      price: cheapest?.amount ?? null,
+      currency: cheapest?.currency ?? 'EUR',
+      failed: false,
+    };
+  }));
+}
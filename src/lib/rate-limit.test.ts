@@ -0,0 +1,211 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  TokenBucket,
+  coalesce,
+  fetchWithRetry,
+  parseRetryAfter,
+  UpstreamHttpError,
+  type Clock,
+} from './rate-limit';
+import { getStop } from './db-transport';
+import * as board from '../pages/api/transport/board';
+import type { APIContext } from 'astro';
+
+// Clock that advances only when something sleeps
+function fakeClock(start = Date.parse('2025-06-01T08:00:00Z')) {
+  let now = start;
+  const sleeps: number[] = [];
+  const clock: Clock = {
+    now: () => now,
+    sleep: async ms => {
+      sleeps.push(ms);
+      now += ms;
+    },
+  };
+  return { clock, sleeps };
+}
+
+// Fetch that answers with the given responses in order and records its calls
+function fakeFetch(...responses: Array<Response | Error>) {
+  const calls: string[] = [];
+  const impl = (async (url: string) => {
+    calls.push(url);
+    const next = responses.shift();
+    if (!next) throw new Error('unexpected fetch');
+    if (next instanceof Error) throw next;
+    return next;
+  }) as unknown as typeof fetch;
+  return { impl, calls };
+}
+
+const status = (code: number, headers: Record<string, string> = {}) =>
+  new Response(code === 200 ? '{"ok":true}' : '', { status: code, headers });
+
+describe('TokenBucket', () => {
+  it('hands out the capacity, then refills over time', async () => {
+    const { clock } = fakeClock();
+    const bucket = new TokenBucket(2, 1000, clock);
+
+    expect(await bucket.take()).toBe(true);
+    expect(await bucket.take()).toBe(true);
+    expect(await bucket.take()).toBe(false);
+    expect(bucket.available).toBe(0);
+  });
+
+  it('waits for a refill within maxWaitMs', async () => {
+    const { clock, sleeps } = fakeClock();
+    const bucket = new TokenBucket(2, 1000, clock);
+    await bucket.take();
+    await bucket.take();
+
+    expect(await bucket.take(400)).toBe(false); // next token needs 500 ms
+    expect(await bucket.take(500)).toBe(true);
+    expect(sleeps).toEqual([500]);
+  });
+});
+
+describe('coalesce', () => {
+  it('shares one fetch between concurrent calls with the same key', async () => {
+    const { impl, calls } = fakeFetch(status(200), status(200));
+    const load = () => coalesce('stops/1', () => impl('stops/1').then(r => r.json()));
+
+    const [a, b] = await Promise.all([load(), load()]);
+    expect(a).toEqual({ ok: true });
+    expect(b).toBe(a);
+    expect(calls).toHaveLength(1);
+
+    // Settled keys are fetched again
+    await load();
+    expect(calls).toHaveLength(2);
+  });
+
+  it('shares failures and forgets them', async () => {
+    const { impl, calls } = fakeFetch(new Error('offline'), status(200));
+    const load = () => coalesce('stops/2', () => impl('stops/2'));
+
+    const results = await Promise.allSettled([load(), load()]);
+    expect(results.map(r => r.status)).toEqual(['rejected', 'rejected']);
+    expect(calls).toHaveLength(1);
+
+    await expect(load()).resolves.toBeInstanceOf(Response);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    const now = Date.parse('2025-06-01T08:00:00Z');
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Sun, 01 Jun 2025 08:00:10 GMT', now)).toBe(10_000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
+
+describe('fetchWithRetry', () => {
+  it('waits for Retry-After before retrying a 429', async () => {
+    const { clock, sleeps } = fakeClock();
+    const { impl, calls } = fakeFetch(status(429, { 'Retry-After': '2' }), status(200));
+
+    const response = await fetchWithRetry('https://example.test/a', {}, { fetchImpl: impl, clock });
+    expect(response.status).toBe(200);
+    expect(calls).toHaveLength(2);
+    expect(sleeps).toEqual([2000]);
+  });
+
+  it('backs off exponentially on 5xx without Retry-After', async () => {
+    const { clock, sleeps } = fakeClock();
+    const { impl, calls } = fakeFetch(status(503), status(502), status(200));
+
+    await fetchWithRetry('https://example.test/b', {}, { fetchImpl: impl, clock, baseDelayMs: 100 });
+    expect(calls).toHaveLength(3);
+    expect(sleeps).toEqual([100, 200]);
+  });
+
+  it('gives up when Retry-After exceeds maxDelayMs', async () => {
+    const { clock, sleeps } = fakeClock();
+    const { impl } = fakeFetch(status(429, { 'Retry-After': '60' }));
+
+    const error = await fetchWithRetry('https://example.test/c', {}, { fetchImpl: impl, clock, upstream: 'DB API' })
+      .catch(e => e);
+    expect(error).toBeInstanceOf(UpstreamHttpError);
+    expect(error).toMatchObject({ status: 429, retryAfterMs: 60_000, upstream: 'DB API' });
+    expect(sleeps).toEqual([]);
+  });
+
+  it('does not retry client errors', async () => {
+    const { clock } = fakeClock();
+    const { impl, calls } = fakeFetch(status(404));
+
+    await expect(fetchWithRetry('https://example.test/d', {}, { fetchImpl: impl, clock }))
+      .rejects.toMatchObject({ status: 404 });
+    expect(calls).toHaveLength(1);
+  });
+
+  it('reports network failures after the last attempt as status 0', async () => {
+    const { clock } = fakeClock();
+    const { impl, calls } = fakeFetch(new Error('offline'), new Error('offline'));
+
+    await expect(fetchWithRetry('https://example.test/e', {}, { fetchImpl: impl, clock, retries: 1 }))
+      .rejects.toMatchObject({ status: 0, message: 'Upstream Error: offline' });
+    expect(calls).toHaveLength(2);
+  });
+
+  it('takes a limiter token for every attempt', async () => {
+    const { clock } = fakeClock();
+    const limiter = new TokenBucket(2, 60 * 1000, clock);
+    const { impl, calls } = fakeFetch(status(503), status(503), status(200));
+
+    await expect(fetchWithRetry('https://example.test/f', {}, {
+      fetchImpl: impl,
+      clock,
+      limiter,
+      maxQueueWaitMs: 1000,
+      upstream: 'DB API',
+    })).rejects.toMatchObject({ status: 429, message: 'DB API Error: client rate limit reached' });
+    expect(calls).toHaveLength(2);
+    expect(limiter.available).toBe(0);
+  });
+});
+
+describe('DB client', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('coalesces concurrent identical requests into one upstream call', async () => {
+    const stop = { type: 'stop', id: '8011160', name: 'Berlin Hbf' };
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify(stop), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const [a, b] = await Promise.all([getStop('8011160'), getStop('8011160')]);
+    expect(a).toEqual(stop);
+    expect(b).toEqual(stop);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0]).toEqual([
+      'https://v6.db.transport.rest/stops/8011160',
+      expect.objectContaining({ headers: expect.objectContaining({ Accept: 'application/json' }) }),
+    ]);
+  });
+
+  it('serves board requests within the same minute from one upstream call', async () => {
+    const stop = { type: 'stop', id: '8098160', name: 'Berlin Hbf (tief)', location: { type: 'location', latitude: 52.525, longitude: 13.369 } };
+    const fetchMock = vi.fn(async (url: string) => new Response(JSON.stringify(
+      url.includes('/departures') ? { departures: [] }
+        : url.includes('/arrivals') ? { arrivals: [] }
+        : url.includes('/locations') ? [stop]
+        : stop
+    ), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const request = async () => {
+      const url = new URL('http://localhost/api/transport/board?station=8098160');
+      const response = await board.GET({ url, request: new Request(url) } as unknown as APIContext);
+      expect(response.status).toBe(200);
+    };
+    await request();
+    await request();
+
+    const boardCalls = fetchMock.mock.calls.filter(([url]) => /\/stops\/8098160\/(departures|arrivals)/.test(url));
+    expect(boardCalls).toHaveLength(2); // one departures and one arrivals call
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Upstream Request Control
+ * Client-side protection for rate-limited APIs:
+ * - TokenBucket: keeps us below the upstream limit (e.g. 100 requests/minute)
+ * - coalesce: concurrent identical requests share one upstream fetch
+ * - fetchWithRetry: retries 429/5xx with backoff, respecting Retry-After
+ *
+ * State is per isolate - on Cloudflare each isolate gets its own bucket.
+ * Clock, sleep and fetch are injectable so the behaviour can be checked
+ * against a fake fetch.
+ */
+
+// ============ Types ============
+
+export interface Clock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+export interface RetryOptions {
+  upstream?: string;         // name used in error messages, e.g. "DB API"
+  retries?: number;          // default 3
+  baseDelayMs?: number;      // default 500, doubled per attempt
+  maxDelayMs?: number;       // default 10s, longer Retry-After is not waited for
+  limiter?: TokenBucket;     // every attempt takes a token, retries included
+  maxQueueWaitMs?: number;   // default 5s, how long an attempt waits for a token
+  fetchImpl?: typeof fetch;
+  clock?: Clock;
+}
+
+export class UpstreamHttpError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public retryAfterMs?: number,
+    public upstream?: string // e.g. "DB API"
+  ) {
+    super(message);
+    this.name = 'UpstreamHttpError';
+  }
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+};
+
+// ============ Token Bucket ============
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(
+    private capacity: number,
+    private refillIntervalMs: number, // time to refill the full capacity
+    private clock: Clock = systemClock
+  ) {
+    this.tokens = capacity;
+    this.lastRefill = clock.now();
+  }
+
+  private refill(): void {
+    const now = this.clock.now();
+    const elapsed = now - this.lastRefill;
+    this.tokens = Math.min(this.capacity, this.tokens + (elapsed / this.refillIntervalMs) * this.capacity);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Take one token, waiting for a refill if necessary
+   * Returns false if no token is available within maxWaitMs
+   */
+  async take(maxWaitMs = 0): Promise<boolean> {
+    this.refill();
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return true;
+    }
+
+    const waitMs = Math.ceil(((1 - this.tokens) / this.capacity) * this.refillIntervalMs);
+    if (waitMs > maxWaitMs) return false;
+
+    await this.clock.sleep(waitMs);
+    return this.take(maxWaitMs - waitMs);
+  }
+
+  get available(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+}
+
+// ============ Coalescing ============
+
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Share one pending promise between concurrent calls with the same key
+ */
+export function coalesce<T>(key: string, load: () => Promise<T>): Promise<T> {
+  const pending = inFlight.get(key);
+  if (pending) return pending as Promise<T>;
+
+  const promise = load().finally(() => inFlight.delete(key));
+  inFlight.set(key, promise);
+  return promise;
+}
+
+// ============ Retry ============
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) return Math.max(0, date - now);
+
+  return undefined;
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Fetch with retries on 429/5xx and network errors
+ * Throws UpstreamHttpError for non-OK responses and network errors after the
+ * last attempt, and a 429 when the limiter has no token in time.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  options: RetryOptions = {}
+): Promise<Response> {
+  const {
+    upstream = 'Upstream',
+    retries = 3,
+    baseDelayMs = 500,
+    maxDelayMs = 10 * 1000,
+    limiter,
+    maxQueueWaitMs = 5 * 1000,
+    fetchImpl = fetch,
+    clock = systemClock,
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (limiter && !(await limiter.take(maxQueueWaitMs))) {
+      throw new UpstreamHttpError(`${upstream} Error: client rate limit reached`, 429, undefined, upstream);
+    }
+
+    let response: Response;
+    try {
+      response = await fetchImpl(url, init);
+    } catch (error) {
+      if (attempt >= retries) {
+        // Network failure, status 0 like a failed fetch in the browser
+        throw new UpstreamHttpError(
+          `${upstream} Error: ${error instanceof Error ? error.message : 'network error'}`,
+          0,
+          undefined,
+          upstream
+        );
+      }
+      await clock.sleep(baseDelayMs * 2 ** attempt);
+      continue;
+    }
+
+    if (response.ok) return response;
+
+    const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'), clock.now());
+    const delayMs = retryAfterMs ?? baseDelayMs * 2 ** attempt;
+
+    if (!isRetryable(response.status) || attempt >= retries || delayMs > maxDelayMs) {
+      throw new UpstreamHttpError(
+        `${upstream} Error: ${response.status} ${response.statusText}`,
+        response.status,
+        retryAfterMs,
+        upstream
+      );
+    }
+
+    await clock.sleep(delayMs);
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addMinutes,
+  formatTime,
+  getTimeZoneOffset,
+  toOffsetIso,
+  toZonedIso,
+  zonedTimeToUtc,
+} from './time';
+
+// 2025: clocks go forward on 30 March 02:00 CET and back on 26 October 03:00 CEST
+
+describe('getTimeZoneOffset', () => {
+  it('switches at the DST boundaries', () => {
+    expect(getTimeZoneOffset(Date.parse('2025-03-30T00:59:00Z'))).toBe(60);
+    expect(getTimeZoneOffset(Date.parse('2025-03-30T01:00:00Z'))).toBe(120);
+    expect(getTimeZoneOffset(Date.parse('2025-10-26T00:59:00Z'))).toBe(120);
+    expect(getTimeZoneOffset(Date.parse('2025-10-26T01:00:00Z'))).toBe(60);
+  });
+});
+
+describe('toOffsetIso', () => {
+  it('uses the offset in effect on that day', () => {
+    expect(toOffsetIso('2025-01-15T08:00')).toBe('2025-01-15T08:00:00+01:00');
+    expect(toOffsetIso('2025-06-01T08:00')).toBe('2025-06-01T08:00:00+02:00');
+  });
+
+  it('moves times in the spring gap forward by an hour', () => {
+    expect(toOffsetIso('2025-03-30T01:59')).toBe('2025-03-30T01:59:00+01:00');
+    expect(toOffsetIso('2025-03-30T02:30')).toBe('2025-03-30T03:30:00+02:00');
+    expect(toOffsetIso('2025-03-30T03:00')).toBe('2025-03-30T03:00:00+02:00');
+  });
+
+  it('resolves the repeated autumn hour to the earlier instant', () => {
+    expect(toOffsetIso('2025-10-26T02:30')).toBe('2025-10-26T02:30:00+02:00');
+    expect(zonedTimeToUtc('2025-10-26T02:30').toISOString()).toBe('2025-10-26T00:30:00.000Z');
+    expect(toOffsetIso('2025-10-26T03:00')).toBe('2025-10-26T03:00:00+01:00');
+  });
+
+  it('keeps an explicit offset in the repeated hour', () => {
+    expect(toOffsetIso('2025-10-26T02:30:00+01:00')).toBe('2025-10-26T02:30:00+01:00');
+    expect(toOffsetIso('2025-10-26T00:30:00Z')).toBe('2025-10-26T02:30:00+02:00');
+  });
+});
+
+describe('addMinutes', () => {
+  it('counts real minutes across the spring gap', () => {
+    expect(addMinutes('2025-03-30T01:30:00+01:00', 60)).toBe('2025-03-30T03:30:00+02:00');
+    expect(addMinutes('2025-03-30T03:30:00+02:00', -60)).toBe('2025-03-30T01:30:00+01:00');
+  });
+
+  it('passes through the repeated autumn hour twice', () => {
+    expect(addMinutes('2025-10-26T02:30:00+02:00', 60)).toBe('2025-10-26T02:30:00+01:00');
+    expect(addMinutes('2025-10-26T01:30', 120)).toBe('2025-10-26T02:30:00+01:00');
+    expect(addMinutes('2025-10-26T02:30:00+01:00', -60)).toBe('2025-10-26T02:30:00+02:00');
+  });
+});
+
+describe('formatTime', () => {
+  it('shows Berlin wall-clock time on both sides of the boundary', () => {
+    expect(formatTime('2025-10-26T00:30:00Z')).toBe('02:30');
+    expect(formatTime('2025-10-26T01:30:00Z')).toBe('02:30');
+    expect(toZonedIso('2025-03-30T01:00:00Z')).toBe('2025-03-30T03:00:00+02:00');
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Time
+ * Time zone handling for user input and upstream times:
+ * - user dates/times without offset are Europe/Berlin wall-clock times
+ * - normalized responses carry ISO timestamps with offset, e.g. "2025-06-01T10:00:00+02:00"
+ *
+ * Workers run in UTC, so nothing here relies on the server's local time zone.
+ */
+
+// ============ Config ============
+
+export const DEFAULT_TIME_ZONE = 'Europe/Berlin';
+
+const MINUTE = 60 * 1000;
+
+// Offset already present: "Z", "+02:00", "+0200"
+const OFFSET_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/;
+
+// ============ Helpers ============
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock parts of an instant in a time zone
+ */
+function getZonedParts(ms: number, timeZone: string): Record<string, number> {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of getFormatter(timeZone).formatToParts(new Date(ms))) {
+    if (type !== 'literal') parts[type] = parseInt(value);
+  }
+  return parts;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Parse "YYYY-MM-DDTHH:MM[:SS]" as if it were UTC, ignoring any offset
+ */
+function parseWallClock(local: string): number {
+  const [date, time = '00:00'] = local.slice(0, 19).split('T');
+  return Date.parse(`${date}T${time.length === 5 ? `${time}:00` : time}Z`);
+}
+
+/**
+ * Format an offset in minutes as "+02:00"
+ */
+export function formatOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const abs = Math.abs(offsetMinutes);
+  return `${sign}${pad(Math.floor(abs / 60))}:${pad(abs % 60)}`;
+}
+
+// ============ API Functions ============
+
+/**
+ * UTC offset of a time zone at an instant, in minutes (Berlin: 60 or 120)
+ */
+export function getTimeZoneOffset(instant: Date | number, timeZone: string = DEFAULT_TIME_ZONE): number {
+  const ms = typeof instant === 'number' ? instant : instant.getTime();
+  const p = getZonedParts(ms, timeZone);
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((wallClock - Math.floor(ms / 1000) * 1000) / MINUTE);
+}
+
+/**
+ * Instant of a wall-clock time in a time zone
+ * Times in the spring-forward gap (02:30 on the last Sunday in March) move
+ * forward by the gap; ambiguous autumn times resolve to the earlier one.
+ */
+export function zonedTimeToUtc(local: string, timeZone: string = DEFAULT_TIME_ZONE): Date {
+  const wallClock = parseWallClock(local);
+  const firstGuess = wallClock - getTimeZoneOffset(wallClock, timeZone) * MINUTE;
+  const offset = getTimeZoneOffset(firstGuess, timeZone);
+  const earlierOffset = getTimeZoneOffset(firstGuess - 60 * MINUTE, timeZone);
+
+  // Prefer the earlier instant if both offsets map back to the same wall clock
+  const earlier = wallClock - earlierOffset * MINUTE;
+  if (earlierOffset !== offset && getTimeZoneOffset(earlier, timeZone) === earlierOffset) {
+    return new Date(earlier);
+  }
+  return new Date(wallClock - offset * MINUTE);
+}
+
+/**
+ * ISO timestamp with the time zone's offset, e.g. "2025-06-01T10:00:00+02:00"
+ */
+export function toZonedIso(instant: Date | string | number, timeZone: string = DEFAULT_TIME_ZONE): string {
+  const ms = instant instanceof Date ? instant.getTime() : typeof instant === 'number' ? instant : Date.parse(instant);
+  const p = getZonedParts(ms, timeZone);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}` +
+    formatOffset(getTimeZoneOffset(ms, timeZone));
+}
+
+/**
+ * Attach an offset to a user or upstream time
+ * Times that already have one are only reformatted; times without one are
+ * wall-clock times in `timeZone`.
+ */
+export function toOffsetIso(input: string, timeZone: string = DEFAULT_TIME_ZONE): string {
+  return OFFSET_PATTERN.test(input)
+    ? toZonedIso(input, timeZone)
+    : toZonedIso(zonedTimeToUtc(input, timeZone), timeZone);
+}
+
+/**
+ * Attach the offset implied by a known instant to a wall-clock time
+ * For places without a known time zone, e.g. a foreign airport whose
+ * arrival instant follows from the departure and the flight duration.
+ */
+export function withOffsetAt(local: string, instant: Date | string | number): string {
+  const ms = instant instanceof Date ? instant.getTime() : typeof instant === 'number' ? instant : Date.parse(instant);
+  const offset = Math.round((parseWallClock(local) - ms) / MINUTE);
+  return `${local.slice(0, 19)}${formatOffset(offset)}`;
+}
+
+/**
+ * Shift an ISO timestamp by minutes, keeping the time zone
+ */
+export function addMinutes(iso: string, minutes: number, timeZone: string = DEFAULT_TIME_ZONE): string {
+  return toZonedIso(Date.parse(toOffsetIso(iso, timeZone)) + minutes * MINUTE, timeZone);
+}
+
+/**
+ * "HH:MM" of an instant in a time zone
+ */
+export function formatTime(instant: Date | string | number, timeZone: string = DEFAULT_TIME_ZONE): string {
+  return toZonedIso(instant, timeZone).slice(11, 16);
+}
+
+/**
+ * Today's date YYYY-MM-DD in a time zone
+ */
+export function today(timeZone: string = DEFAULT_TIME_ZONE): string {
+  return toZonedIso(Date.now(), timeZone).slice(0, 10);
+}
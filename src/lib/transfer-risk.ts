@@ -0,0 +1,123 @@
+/**
+ * Transfer Risk
+ * Rates each change in a journey by its planned and realtime buffer,
+ * platform changes and cancellations, and derives a reliability score.
+ *
+ * Thresholds are rules of thumb for German main stations, not DB's
+ * official minimum transfer times.
+ */
+
+import { getTransferPairs, type Journey, type Leg } from './db-transport';
+
+// ============ Types ============
+
+export type TransferRiskLevel = 'safe' | 'tight' | 'likely_missed';
+
+export interface TransferRisk {
+  station: string;
+  arrivingLine?: string;
+  departingLine?: string;
+  plannedBufferMinutes: number;
+  realtimeBufferMinutes: number;
+  platformChange: boolean; // realtime platform differs from the planned one
+  risk: TransferRiskLevel;
+}
+
+// ============ Config ============
+
+const SAME_PLATFORM_MINUTES = 2;  // cross-platform change
+const OTHER_PLATFORM_MINUTES = 5; // stairs/underpass to another platform
+const PLATFORM_CHANGE_MINUTES = 2; // extra time when the platform changed at short notice
+const TIGHT_MARGIN_MINUTES = 3;    // below required + margin counts as tight
+
+// Score penalties, starting from 100
+const RISK_PENALTY: Record<TransferRiskLevel, number> = {
+  safe: 0,
+  tight: 25,
+  likely_missed: 60,
+};
+const TRANSFER_PENALTY = 5;
+
+// ============ Helpers ============
+
+function minutesBetween(from: string, to: string): number {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000);
+}
+
+function walkingMinutes(journey: Journey, arriving: Leg, departing: Leg): { planned: number; realtime: number } {
+  const start = journey.legs.indexOf(arriving) + 1;
+  const end = journey.legs.indexOf(departing);
+  return journey.legs.slice(start, end).reduce(
+    (sum, leg) => ({
+      planned: sum.planned + minutesBetween(leg.plannedDeparture, leg.plannedArrival),
+      realtime: sum.realtime + minutesBetween(leg.departure ?? leg.plannedDeparture, leg.arrival ?? leg.plannedArrival),
+    }),
+    { planned: 0, realtime: 0 }
+  );
+}
+
+function isPlatformChanged(platform?: string | null, planned?: string | null): boolean {
+  return !!platform && !!planned && platform !== planned;
+}
+
+// ============ API Functions ============
+
+/**
+ * Rate every transfer of a journey
+ */
+export function assessTransfers(journey: Journey): TransferRisk[] {
+  return getTransferPairs(journey).map(({ arriving, departing }) => {
+    const walking = walkingMinutes(journey, arriving, departing);
+    const plannedBufferMinutes =
+      minutesBetween(arriving.plannedArrival, departing.plannedDeparture) - walking.planned;
+    const realtimeBufferMinutes =
+      minutesBetween(arriving.arrival ?? arriving.plannedArrival, departing.departure ?? departing.plannedDeparture) -
+      walking.realtime;
+
+    const platformChange =
+      isPlatformChanged(arriving.arrivalPlatform, arriving.plannedArrivalPlatform) ||
+      isPlatformChanged(departing.departurePlatform, departing.plannedDeparturePlatform);
+    const samePlatform =
+      walking.planned === 0 &&
+      !!arriving.arrivalPlatform &&
+      arriving.arrivalPlatform === departing.departurePlatform;
+
+    const requiredMinutes =
+      (samePlatform ? SAME_PLATFORM_MINUTES : OTHER_PLATFORM_MINUTES) +
+      (platformChange ? PLATFORM_CHANGE_MINUTES : 0);
+
+    let risk: TransferRiskLevel = 'safe';
+    if (arriving.cancelled || departing.cancelled || realtimeBufferMinutes < SAME_PLATFORM_MINUTES) {
+      risk = 'likely_missed';
+    } else if (realtimeBufferMinutes < requiredMinutes + TIGHT_MARGIN_MINUTES) {
+      risk = 'tight';
+    }
+
+    return {
+      station: departing.origin.name,
+      arrivingLine: arriving.line?.name,
+      departingLine: departing.line?.name,
+      plannedBufferMinutes,
+      realtimeBufferMinutes,
+      platformChange,
+      risk,
+    };
+  });
+}
+
+/**
+ * Reliability score 0-100 for a journey
+ * Every transfer costs a little, risky transfers a lot, a cancelled leg everything
+ */
+export function getReliabilityScore(
+  journey: Journey,
+  transfers: TransferRisk[] = assessTransfers(journey)
+): number {
+  if (journey.legs.some(leg => leg.cancelled)) return 0;
+
+  const penalty = transfers.reduce(
+    (sum, transfer) => sum + TRANSFER_PENALTY + RISK_PENALTY[transfer.risk],
+    0
+  );
+  return Math.max(0, 100 - penalty);
+}
@@ -0,0 +1,225 @@
+/**
+ * Transport Response Format
+ * Normalized shapes returned by the /api/transport routes, shared so that
+ * search, paging and refresh all produce the same journey objects.
+ */
+
+import {
+  getJourneyDuration,
+  getJourneyId,
+  formatDuration,
+  getTransferCount,
+  formatDelay,
+  getProductIcon,
+  isDeutschlandticketJourney,
+  classifyRemark,
+  compareSeverity,
+  PRODUCT_FILTER_KEYS,
+  DEUTSCHLANDTICKET_EXCLUDED,
+  type Journey,
+  type Departure,
+  type Arrival,
+  type Remark,
+  type Stopover,
+  type Trip,
+  type TransportRemark,
+  type ProductFilter,
+} from './db-transport';
+import { assessTransfers, getReliabilityScore } from './transfer-risk';
+import { estimateTripPosition, isStopoverPassed } from './trip-position';
+
+/**
+ * Classified remarks, most severe first
+ */
+function normalizeRemarks(remarks: Remark[] | undefined): TransportRemark[] {
+  return (remarks ?? [])
+    .map(classifyRemark)
+    .filter((remark): remark is TransportRemark => remark !== null)
+    .sort((a, b) => compareSeverity(a.severity, b.severity));
+}
+
+/**
+ * Transform a journey for the frontend
+ * `id` is stable across pages and refreshes, so clients can dedupe by it
+ */
+export function normalizeJourney(journey: Journey) {
+  const firstLeg = journey.legs[0];
+  const lastLeg = journey.legs[journey.legs.length - 1];
+  const transportLegs = journey.legs.filter(leg => !leg.walking && leg.line);
+  const transferRisks = assessTransfers(journey);
+
+  return {
+    id: getJourneyId(journey),
+    departure: firstLeg.departure,
+    plannedDeparture: firstLeg.plannedDeparture,
+    departureDelay: formatDelay(firstLeg.departureDelay),
+    arrival: lastLeg.arrival,
+    plannedArrival: lastLeg.plannedArrival,
+    arrivalDelay: formatDelay(lastLeg.arrivalDelay),
+    duration: formatDuration(getJourneyDuration(journey)),
+    durationMinutes: getJourneyDuration(journey),
+    transfers: getTransferCount(journey),
+    transferRisks,
+    reliability: getReliabilityScore(journey, transferRisks),
+    price: journey.price,
+    deutschlandticket: isDeutschlandticketJourney(journey),
+    origin: {
+      id: firstLeg.origin.id,
+      name: firstLeg.origin.name,
+      platform: firstLeg.departurePlatform,
+    },
+    destination: {
+      id: lastLeg.destination.id,
+      name: lastLeg.destination.name,
+      platform: lastLeg.arrivalPlatform,
+    },
+    products: transportLegs.map(leg => ({
+      line: leg.line?.name,
+      product: leg.line?.product,
+      direction: leg.direction,
+    })),
+    legs: journey.legs.map(leg => ({
+      tripId: leg.tripId, // for /api/transport/trips/:id
+      origin: leg.origin.name,
+      destination: leg.destination.name,
+      departure: leg.departure,
+      arrival: leg.arrival,
+      line: leg.line?.name,
+      product: leg.line?.product,
+      direction: leg.direction,
+      walking: leg.walking,
+      distance: leg.distance,
+      departurePlatform: leg.departurePlatform,
+      plannedDeparturePlatform: leg.plannedDeparturePlatform,
+      arrivalPlatform: leg.arrivalPlatform,
+      plannedArrivalPlatform: leg.plannedArrivalPlatform,
+      departureDelay: formatDelay(leg.departureDelay),
+      arrivalDelay: formatDelay(leg.arrivalDelay),
+      cancelled: leg.cancelled ?? false,
+      remarks: normalizeRemarks(leg.remarks),
+    })),
+    refreshToken: journey.refreshToken,
+  };
+}
+
+export type NormalizedJourney = ReturnType<typeof normalizeJourney>;
+
+/**
+ * Fields shared by departure and arrival board entries
+ */
+function normalizeBoardEntry(entry: Departure | Arrival) {
+  return {
+    tripId: entry.tripId,
+    time: entry.when,
+    plannedTime: entry.plannedWhen,
+    delay: formatDelay(entry.delay),
+    delayMinutes: entry.delay ? Math.round(entry.delay / 60) : 0,
+    line: entry.line?.name,
+    product: entry.line?.product,
+    productIcon: getProductIcon(entry.line?.product || ''),
+    platform: entry.platform,
+    plannedPlatform: entry.plannedPlatform,
+    platformChanged: entry.platform !== entry.plannedPlatform && entry.plannedPlatform !== null,
+    cancelled: entry.when === null,
+    remarks: normalizeRemarks(entry.remarks),
+  };
+}
+
+/**
+ * Transform a departure for the frontend
+ */
+export function normalizeDeparture(dep: Departure) {
+  return {
+    ...normalizeBoardEntry(dep),
+    direction: dep.direction,
+  };
+}
+
+/**
+ * Transform an arrival for the frontend
+ */
+export function normalizeArrival(arr: Arrival) {
+  return {
+    ...normalizeBoardEntry(arr),
+    provenance: arr.provenance,
+  };
+}
+
+/**
+ * Transform a trip stopover for the frontend
+ * `passed` marks stops the train has already left
+ */
+function normalizeStopover(stopover: Stopover, now: number) {
+  const platform = stopover.departurePlatform ?? stopover.arrivalPlatform ?? null;
+  const plannedPlatform = stopover.plannedDeparturePlatform ?? stopover.plannedArrivalPlatform ?? null;
+
+  return {
+    id: stopover.stop.id,
+    name: stopover.stop.name,
+    arrival: stopover.arrival,
+    plannedArrival: stopover.plannedArrival,
+    arrivalDelay: formatDelay(stopover.arrivalDelay),
+    departure: stopover.departure,
+    plannedDeparture: stopover.plannedDeparture,
+    departureDelay: formatDelay(stopover.departureDelay),
+    platform,
+    plannedPlatform,
+    platformChanged: platform !== plannedPlatform && plannedPlatform !== null,
+    cancelled: stopover.cancelled ?? false,
+    passed: isStopoverPassed(stopover, now),
+    remarks: normalizeRemarks(stopover.remarks),
+  };
+}
+
+/**
+ * Transform a trip for the frontend, with its estimated current position
+ */
+export function normalizeTrip(trip: Trip, now: number = Date.now()) {
+  return {
+    id: trip.id,
+    line: trip.line?.name,
+    product: trip.line?.product,
+    productIcon: getProductIcon(trip.line?.product || ''),
+    direction: trip.direction,
+    origin: trip.origin.name,
+    destination: trip.destination.name,
+    departure: trip.departure,
+    plannedDeparture: trip.plannedDeparture,
+    arrival: trip.arrival,
+    plannedArrival: trip.plannedArrival,
+    cancelled: trip.cancelled ?? false,
+    position: estimateTripPosition(trip, now),
+    stopovers: trip.stopovers.map(stopover => normalizeStopover(stopover, now)),
+    remarks: normalizeRemarks(trip.remarks),
+  };
+}
+
+export type NormalizedTrip = ReturnType<typeof normalizeTrip>;
+
+/**
+ * Turn the parsed product query params into filter flags
+ * - products: products to include, all others are excluded
+ * - exclude: products to exclude, all others keep the DB default
+ * - deutschlandticket: exclude ICE/IC/EC on top of the above
+ */
+export function toProductFilter(params: {
+  products?: Array<keyof ProductFilter>;
+  exclude?: Array<keyof ProductFilter>;
+  deutschlandticket?: boolean;
+}): ProductFilter | undefined {
+  const included = params.products ?? [];
+  const excluded = params.exclude ?? [];
+  if (included.length === 0 && excluded.length === 0 && !params.deutschlandticket) {
+    return undefined;
+  }
+
+  const filter: ProductFilter = included.length > 0
+    ? Object.fromEntries(PRODUCT_FILTER_KEYS.map(key => [key, included.includes(key)]))
+    : {};
+  for (const key of excluded) filter[key] = false;
+  if (params.deutschlandticket) {
+    for (const key of DEUTSCHLANDTICKET_EXCLUDED) filter[key] = false;
+  }
+
+  return filter;
+}
@@ -0,0 +1,128 @@
+/**
+ * Trip Position
+ * Where a train is right now, from its stopovers: at a stop, or between two
+ * stops with the position interpolated by time. DB only reports a realtime
+ * position for some trains; it is used instead of the estimate when present.
+ */
+
+import type { Trip, Stopover } from './db-transport';
+
+// ============ Types ============
+
+export type TripStatus = 'not_started' | 'at_stop' | 'between_stops' | 'finished' | 'cancelled';
+
+export interface TripPosition {
+  status: TripStatus;
+  previousStop?: string; // last stop served, or the current one when at_stop
+  nextStop?: string;
+  progress: number;      // 0-1 between previousStop and nextStop
+  latitude?: number;
+  longitude?: number;
+  source: 'realtime' | 'estimated';
+}
+
+// ============ Helpers ============
+
+function toMs(time: string | null | undefined): number | null {
+  return time ? new Date(time).getTime() : null;
+}
+
+/**
+ * Arrival and departure of a stopover, realtime where known
+ * Missing ends (first stop, last stop) fall back to the other one
+ */
+function stopTimes(stopover: Stopover): { arrival: number | null; departure: number | null } {
+  const arrival = toMs(stopover.arrival ?? stopover.plannedArrival);
+  const departure = toMs(stopover.departure ?? stopover.plannedDeparture);
+  return { arrival: arrival ?? departure, departure: departure ?? arrival };
+}
+
+function coordinates(stopover: Stopover): { latitude: number; longitude: number } | undefined {
+  const location = stopover.stop.location;
+  return location && { latitude: location.latitude, longitude: location.longitude };
+}
+
+// ============ API Functions ============
+
+/**
+ * Whether the train has left a stopover (or passed it, if cancelled there)
+ */
+export function isStopoverPassed(stopover: Stopover, now: number = Date.now()): boolean {
+  const { departure } = stopTimes(stopover);
+  return departure !== null && departure <= now;
+}
+
+/**
+ * Estimate a trip's current position
+ * Cancelled stopovers are skipped, the train doesn't stop there.
+ */
+export function estimateTripPosition(trip: Trip, now: number = Date.now()): TripPosition {
+  const stops = trip.stopovers.filter(stopover => !stopover.cancelled);
+  if (trip.cancelled || stops.length === 0) {
+    return { status: 'cancelled', progress: 0, source: 'estimated' };
+  }
+
+  const first = stops[0];
+  const last = stops[stops.length - 1];
+  const realtime = trip.currentLocation && {
+    latitude: trip.currentLocation.latitude,
+    longitude: trip.currentLocation.longitude,
+    source: 'realtime' as const,
+  };
+
+  if ((stopTimes(first).departure ?? now) > now) {
+    return {
+      status: 'not_started',
+      nextStop: first.stop.name,
+      progress: 0,
+      ...coordinates(first),
+      source: 'estimated',
+    };
+  }
+  if ((stopTimes(last).arrival ?? now) <= now) {
+    return {
+      status: 'finished',
+      previousStop: last.stop.name,
+      progress: 1,
+      ...coordinates(last),
+      source: 'estimated',
+    };
+  }
+
+  for (let i = 0; i < stops.length; i++) {
+    const current = stopTimes(stops[i]);
+    if (current.arrival !== null && current.departure !== null && current.arrival <= now && now < current.departure) {
+      return {
+        status: 'at_stop',
+        previousStop: stops[i].stop.name,
+        nextStop: stops[i + 1]?.stop.name,
+        progress: 0,
+        ...coordinates(stops[i]),
+        source: 'estimated',
+        ...realtime,
+      };
+    }
+
+    const next = stops[i + 1] && stopTimes(stops[i + 1]);
+    if (next?.arrival != null && current.departure !== null && current.departure <= now && now < next.arrival) {
+      const progress = (now - current.departure) / Math.max(1, next.arrival - current.departure);
+      const from = coordinates(stops[i]);
+      const to = coordinates(stops[i + 1]);
+      return {
+        status: 'between_stops',
+        previousStop: stops[i].stop.name,
+        nextStop: stops[i + 1].stop.name,
+        progress: Math.round(progress * 100) / 100,
+        ...(from && to && {
+          latitude: from.latitude + (to.latitude - from.latitude) * progress,
+          longitude: from.longitude + (to.longitude - from.longitude) * progress,
+        }),
+        source: 'estimated',
+        ...realtime,
+      };
+    }
+  }
+
+  // Times out of order, e.g. a delayed arrival before the planned departure
+  return { status: 'between_stops', progress: 0, source: 'estimated', ...realtime };
+}
@@ -0,0 +1,34 @@
+/**
+ * Middleware
+ * Selects the cache backend, mock providers and assistant parser per request, since the
+ * Cloudflare bindings (CACHE_KV) and env are only available on the request context.
+ */
+
+import { defineMiddleware } from 'astro:middleware';
+import { configureCache } from './lib/cache';
+import { configureProviders } from './lib/mock-providers';
+import { configureAssistant, createLlmParser, stubCompletion, ruleBasedParser } from './lib/assistant-intent';
+
+export const onRequest = defineMiddleware((context, next) => {
+  const env = context.locals.runtime?.env;
+  const backend = env?.CACHE_BACKEND ?? import.meta.env.CACHE_BACKEND;
+  const maxEntries = env?.CACHE_MAX_ENTRIES ?? import.meta.env.CACHE_MAX_ENTRIES;
+
+  configureCache({
+    backend: backend === 'kv' ? 'kv' : 'memory',
+    kv: env?.CACHE_KV,
+    maxEntries: maxEntries ? Number(maxEntries) : undefined, // validated by configureCache
+  });
+
+  configureProviders({
+    mock: (env?.MOCK_PROVIDERS ?? import.meta.env.MOCK_PROVIDERS) === 'true',
+  });
+
+  configureAssistant({
+    parser: (env?.ASSISTANT_PARSER ?? import.meta.env.ASSISTANT_PARSER) === 'llm-stub'
+      ? createLlmParser(stubCompletion, 'llm-stub')
+      : ruleBasedParser,
+  });
+
+  return next();
+});
@@ -0,0 +1,92 @@
+/**
+ * GET /api/assistant
+ * Answer a free-text trip request for the chat widget
+ *
+ * Query params:
+ * - q: trip request in German or English (required),
+ *   e.g. "Morgen früh mit dem Zug von Köln nach Berlin, max. 1 Umstieg"
+ * - stream: "true" for Server-Sent Events (default false)
+ *
+ * Missing or ambiguous places are not errors: the answer has status
+ * "incomplete" or "needs_clarification" and a follow-up question as summary.
+ *
+ * With stream=true the response is text/event-stream:
+ * - progress: { stage, message } - "resolving", then "searching"
+ * - results: { source, provider, options } - per provider as soon as it answers,
+ *   options are the best matches so far
+ * - answer: the same body as without streaming, last event
+ * - error: error envelope, if the request failed after the stream started
+ * Closing the connection stops the search before the next upstream step.
+ */
+
+import type { APIRoute } from 'astro';
+import { answerQuery } from '../../lib/assistant';
+import {
+  errorResponse,
+  getLocale,
+  toApiError,
+  toErrorBody,
+  type Locale,
+} from '../../lib/api-errors';
+import { parseQuery, assistantQuery } from '../../lib/api-schemas';
+
+export const prerender = false;
+
+function streamAnswer(query: string, locale: Locale): Response {
+  const encoder = new TextEncoder();
+  const controller = new AbortController();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(stream) {
+      const send = (event: string, data: unknown) => {
+        if (controller.signal.aborted) return;
+        stream.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        const answer = await answerQuery(query, {
+          signal: controller.signal,
+          onEvent: ({ type, ...data }) => send(type, data),
+        });
+        send('answer', answer);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Assistant stream error:', error);
+        send('error', toErrorBody(toApiError(error), locale));
+      }
+      if (!controller.signal.aborted) stream.close();
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
+
+export const GET: APIRoute = async ({ url, request }) => {
+  const locale = getLocale(request);
+
+  try {
+    const { q, stream } = parseQuery(assistantQuery, url.searchParams);
+    if (stream) return streamAnswer(q, locale);
+
+    const answer = await answerQuery(q);
+
+    return new Response(JSON.stringify(answer), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'private, no-cache', // relative dates ("morgen") depend on the day
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, { locale, log: 'Assistant error' });
+  }
+};
@@ -0,0 +1,20 @@
+/**
+ * GET /api/cache-stats
+ * Cache backend and hit/miss counters per upstream endpoint
+ * Counters are per isolate and reset on deploy
+ */
+
+import type { APIRoute } from 'astro';
+import { getCacheStats } from '../../lib/cache';
+
+export const prerender = false;
+
+export const GET: APIRoute = async () => {
+  return new Response(JSON.stringify(getCacheStats()), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+  });
+};
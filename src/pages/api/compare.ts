@@ -0,0 +1,54 @@
+/**
+ * GET /api/compare
+ * Compare train, flight and bus options for one route
+ *
+ * Query params:
+ * - from: origin city or station (required)
+ * - to: destination city or station (required)
+ * - date: travel date YYYY-MM-DD (default today)
+ * - time: departure time HH:mm (default 08:00)
+ * - sort: duration, price or departure (default duration)
+ */
+
+import type { APIRoute } from 'astro';
+import {
+  compareConnections,
+  resolveEndpoint,
+  sortOptions,
+} from '../../lib/compare';
+import { errorResponse, getLocale } from '../../lib/api-errors';
+import { parseQuery, compareQuery } from '../../lib/api-schemas';
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ url, request }) => {
+  const locale = getLocale(request);
+
+  try {
+    const { from, to, date, time, sort } = parseQuery(compareQuery, url.searchParams);
+
+    const [origin, destination] = await Promise.all([
+      resolveEndpoint(from),
+      resolveEndpoint(to),
+    ]);
+
+    const result = await compareConnections({ from: origin, to: destination, date, time });
+
+    return new Response(JSON.stringify({
+      from: origin,
+      to: destination,
+      date,
+      time,
+      options: sortOptions(result.options, sort),
+      providers: result.providers,
+    }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'public, max-age=60', // 1 min cache
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, { locale, log: 'Compare error' });
+  }
+};
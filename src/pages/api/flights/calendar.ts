@@ -0,0 +1,52 @@
+/**
+ * GET /api/flights/calendar
+ * Cheapest one-way fare per day for a route
+ * 
+ * Query params:
+ * - from: origin city/airport (required)
+ * - to: destination city/airport (required)
+ * - start: first date YYYY-MM-DD (default today)
+ * - days: number of days (default 30, max 60)
+ */
+
+import type { APIRoute } from 'astro';
+import { isAmadeusMocked } from '../../../lib/amadeus-flights';
+import { getFlightPriceCalendar } from '../../../lib/price-calendar';
+import { resolveAirportCode } from '../../../lib/locations';
+import { errorResponse, getLocale } from '../../../lib/api-errors';
+import { parseQuery, flightCalendarQuery } from '../../../lib/api-schemas';
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ url, request }) => {
+  const locale = getLocale(request);
+  
+  try {
+    const { from, to, start, days } = parseQuery(flightCalendarQuery, url.searchParams);
+    
+    const [originCode, destCode] = await Promise.all([
+      resolveAirportCode(from),
+      resolveAirportCode(to),
+    ]);
+    
+    const calendar = await getFlightPriceCalendar(originCode, destCode, { start, days });
+    
+    return new Response(JSON.stringify({
+      origin: originCode,
+      destination: destCode,
+      ...calendar,
+      ...(isAmadeusMocked() && {
+        mock: true,
+        message: 'Amadeus API not configured or mock providers enabled. Showing example data.',
+      }),
+    }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'public, max-age=3600', // 1h, fares come from Amadeus' cache anyway
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, { locale, provider: 'amadeus', log: 'Flight calendar error' });
+  }
+};
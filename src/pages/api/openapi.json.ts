@@ -0,0 +1,17 @@
+/**
+ * GET /api/openapi.json
+ * OpenAPI 3.1 document for the public API, generated from the route schemas
+ * Prerendered: it only changes with a deploy
+ */
+
+import type { APIRoute } from 'astro';
+import { buildOpenApiDocument } from '../../lib/openapi';
+
+export const GET: APIRoute = async () => {
+  return new Response(JSON.stringify(buildOpenApiDocument(), null, 2), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+};
@@ -0,0 +1,57 @@
+/**
+ * GET /api/transport/arrivals
+ * Get live arrivals at a station
+ * 
+ * Query params:
+ * - station: station ID or name (required)
+ * - duration: time window in minutes (default 60)
+ * - results: max results (default 20)
+ * - products: comma-separated products to include, e.g. "nationalExpress,national" (optional)
+ * - exclude: comma-separated products to exclude, e.g. "bus" (optional)
+ * - deutschlandticket: "true" to exclude ICE/IC/EC (optional)
+ */
+
+import type { APIRoute } from 'astro';
+import { getArrivals } from '../../../lib/db-transport';
+import { normalizeArrival, toProductFilter } from '../../../lib/transport-format';
+import { resolveStation } from '../../../lib/locations';
+import { errorResponse, getLocale } from '../../../lib/api-errors';
+import { parseQuery, arrivalsQuery } from '../../../lib/api-schemas';
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ url, request }) => {
+  const locale = getLocale(request);
+  
+  try {
+    const query = parseQuery(arrivalsQuery, url.searchParams);
+    const { station, duration, results } = query;
+    
+    const stop = await resolveStation(station);
+    
+    const response = await getArrivals(stop.id, {
+      duration,
+      results,
+      ...toProductFilter(query),
+    });
+    
+    const arrivals = response.arrivals.map(normalizeArrival);
+    
+    return new Response(JSON.stringify({
+      station: {
+        id: stop.id,
+        name: stop.name,
+      },
+      arrivals,
+      updatedAt: response.realtimeDataUpdatedAt,
+    }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'public, max-age=30', // 30s cache for realtime
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, { locale, provider: 'db', log: 'Arrivals error' });
+  }
+};
@@ -0,0 +1,76 @@
+/**
+ * GET /api/transport/board
+ * Combined station board: departures and arrivals in one time window,
+ * e.g. for partner pages showing "who's arriving at the Hauptbahnhof"
+ * 
+ * Query params:
+ * - station: station ID or name (required)
+ * - when: start of the time window ISO string (optional, default now)
+ * - duration: time window in minutes (default 60)
+ * - results: max results per direction (default 20)
+ * - products: comma-separated products to include, e.g. "nationalExpress,national" (optional)
+ * - exclude: comma-separated products to exclude, e.g. "bus" (optional)
+ * - deutschlandticket: "true" to exclude ICE/IC/EC (optional)
+ */
+
+import type { APIRoute } from 'astro';
+import { getDepartures, getArrivals } from '../../../lib/db-transport';
+import {
+  normalizeDeparture,
+  normalizeArrival,
+  toProductFilter,
+} from '../../../lib/transport-format';
+import { resolveStation } from '../../../lib/locations';
+import { errorResponse, getLocale } from '../../../lib/api-errors';
+import { parseQuery, boardQuery } from '../../../lib/api-schemas';
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ url, request }) => {
+  const locale = getLocale(request);
+  
+  try {
+    const query = parseQuery(boardQuery, url.searchParams);
+    const { station, when, duration, results } = query;
+    
+    const stop = await resolveStation(station);
+    
+    // Same window for both directions. Without `when` the upstream starts at
+    // now; passing the current time would make every request a cache miss.
+    const options = {
+      ...(when && { when }),
+      duration,
+      results,
+      ...toProductFilter(query),
+    };
+    
+    const [departures, arrivals] = await Promise.all([
+      getDepartures(stop.id, options),
+      getArrivals(stop.id, options),
+    ]);
+    
+    const entries = [
+      ...departures.departures.map(dep => ({ type: 'departure' as const, ...normalizeDeparture(dep) })),
+      ...arrivals.arrivals.map(arr => ({ type: 'arrival' as const, ...normalizeArrival(arr) })),
+    ].sort((a, b) =>
+      new Date(a.time ?? a.plannedTime).getTime() - new Date(b.time ?? b.plannedTime).getTime()
+    );
+    
+    return new Response(JSON.stringify({
+      station: {
+        id: stop.id,
+        name: stop.name,
+      },
+      entries,
+      updatedAt: departures.realtimeDataUpdatedAt ?? arrivals.realtimeDataUpdatedAt,
+    }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'public, max-age=30', // 30s cache for realtime
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, { locale, provider: 'db', log: 'Board error' });
+  }
+};
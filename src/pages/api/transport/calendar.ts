@@ -0,0 +1,48 @@
+/**
+ * GET /api/transport/calendar
+ * Cheapest train fare per day between two stations
+ * 
+ * Query params:
+ * - from: origin station ID or name (required)
+ * - to: destination station ID or name (required)
+ * - start: first date YYYY-MM-DD (default today)
+ * - days: number of days (default 7, max 14)
+ * - time: earliest departure HH:MM sampled on each day (default 06:00)
+ */
+
+import type { APIRoute } from 'astro';
+import { getRailPriceCalendar } from '../../../lib/price-calendar';
+import { resolveStation } from '../../../lib/locations';
+import { errorResponse, getLocale } from '../../../lib/api-errors';
+import { parseQuery, railCalendarQuery } from '../../../lib/api-schemas';
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ url, request }) => {
+  const locale = getLocale(request);
+  
+  try {
+    const { from, to, start, days, time } = parseQuery(railCalendarQuery, url.searchParams);
+    
+    const [fromStop, toStop] = await Promise.all([
+      resolveStation(from),
+      resolveStation(to),
+    ]);
+    
+    const calendar = await getRailPriceCalendar(fromStop.id, toStop.id, { start, days, time });
+    
+    return new Response(JSON.stringify({
+      from: fromStop,
+      to: toStop,
+      ...calendar,
+    }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'public, max-age=900', // 15 min cache
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, { locale, provider: 'db', log: 'Rail calendar error' });
+  }
+};
@@ -6,73 +6,41 @@
  * - station: station ID or name (required)
  * - duration: time window in minutes (default 60)
  * - results: max results (default 20)
+ * - products: comma-separated products to include, e.g. "regional,suburban" (optional)
+ * - exclude: comma-separated products to exclude, e.g. "bus" (optional)
+ * - deutschlandticket: "true" to exclude ICE/IC/EC (optional)
  */
 
 import type { APIRoute } from 'astro';
-import { 
-  getDepartures, 
-  searchLocations,
-  formatDelay,
-  getProductIcon 
-} from '../../../lib/db-transport';
+import { getDepartures } from '../../../lib/db-transport';
+import { normalizeDeparture, toProductFilter } from '../../../lib/transport-format';
+import { resolveStation } from '../../../lib/locations';
+import { errorResponse, getLocale } from '../../../lib/api-errors';
+import { parseQuery, departuresQuery } from '../../../lib/api-schemas';
 
 export const prerender = false;
 
-export const GET: APIRoute = async ({ url }) => {
-  const station = url.searchParams.get('station');
-  const duration = parseInt(url.searchParams.get('duration') || '60');
-  const results = parseInt(url.searchParams.get('results') || '20');
-  
-  if (!station) {
-    return new Response(
-      JSON.stringify({ error: 'Parameter "station" is required' }),
-      { status: 400, headers: { 'Content-Type': 'application/json' } }
-    );
-  }
+export const GET: APIRoute = async ({ url, request }) => {
+  const locale = getLocale(request);
   
   try {
-    // If station is not an ID, search for it first
-    let stationId = station;
-    let stationName = station;
+    const query = parseQuery(departuresQuery, url.searchParams);
+    const { station, duration, results } = query;
     
-    if (!/^\d{7,8}$/.test(station)) {
-      const stops = await searchLocations(station, { results: 1 });
-      if (stops.length === 0) {
-        return new Response(
-          JSON.stringify({ error: `Station not found: ${station}` }),
-          { status: 404, headers: { 'Content-Type': 'application/json' } }
-        );
-      }
-      stationId = stops[0].id;
-      stationName = stops[0].name;
-    }
+    const stop = await resolveStation(station);
     
-    const response = await getDepartures(stationId, {
-      duration: Math.min(duration, 720), // max 12 hours
-      results: Math.min(results, 50),
+    const response = await getDepartures(stop.id, {
+      duration,
+      results,
+      ...toProductFilter(query),
     });
     
-    // Transform for frontend
-    const departures = response.departures.map(dep => ({
-      time: dep.when,
-      plannedTime: dep.plannedWhen,
-      delay: formatDelay(dep.delay),
-      delayMinutes: dep.delay ? Math.round(dep.delay / 60) : 0,
-      line: dep.line?.name,
-      product: dep.line?.product,
-      productIcon: getProductIcon(dep.line?.product || ''),
-      direction: dep.direction,
-      platform: dep.platform,
-      plannedPlatform: dep.plannedPlatform,
-      platformChanged: dep.platform !== dep.plannedPlatform && dep.plannedPlatform !== null,
-      cancelled: dep.when === null,
-      remarks: dep.remarks?.filter(r => r.type === 'warning' || r.type === 'status').map(r => r.summary || r.text),
-    }));
+    const departures = response.departures.map(normalizeDeparture);
     
     return new Response(JSON.stringify({
       station: {
-        id: stationId,
-        name: stationName,
+        id: stop.id,
+        name: stop.name,
       },
       departures,
       updatedAt: response.realtimeDataUpdatedAt,
@@ -84,10 +52,6 @@ export const GET: APIRoute = async ({ url }) => {
       },
     });
   } catch (error) {
-    console.error('Departures error:', error);
-    return new Response(
-      JSON.stringify({ error: 'Failed to fetch departures' }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
-    );
+    return errorResponse(error, { locale, provider: 'db', log: 'Departures error' });
   }
 };
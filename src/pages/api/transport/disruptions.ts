@@ -0,0 +1,54 @@
+/**
+ * GET /api/transport/disruptions
+ * Active disruptions at a station: warnings, replacement services and
+ * cancellations from departures and arrivals, grouped by line
+ * 
+ * Query params:
+ * - station: station ID or name (required)
+ * - duration: time window in minutes (default 120)
+ * - products: comma-separated products to include, e.g. "regional,suburban" (optional)
+ * - exclude: comma-separated products to exclude, e.g. "bus" (optional)
+ * - deutschlandticket: "true" to exclude ICE/IC/EC (optional)
+ */
+
+import type { APIRoute } from 'astro';
+import { getDepartures, getArrivals } from '../../../lib/db-transport';
+import { toProductFilter } from '../../../lib/transport-format';
+import { summarizeDisruptions } from '../../../lib/disruptions';
+import { resolveStation } from '../../../lib/locations';
+import { errorResponse, getLocale } from '../../../lib/api-errors';
+import { parseQuery, disruptionsQuery } from '../../../lib/api-schemas';
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ url, request }) => {
+  const locale = getLocale(request);
+  
+  try {
+    const query = parseQuery(disruptionsQuery, url.searchParams);
+    const stop = await resolveStation(query.station);
+    const options = { duration: query.duration, ...toProductFilter(query) };
+    
+    const [departures, arrivals] = await Promise.all([
+      getDepartures(stop.id, options),
+      getArrivals(stop.id, options),
+    ]);
+    
+    return new Response(JSON.stringify({
+      station: {
+        id: stop.id,
+        name: stop.name,
+      },
+      ...summarizeDisruptions([...departures.departures, ...arrivals.arrivals]),
+      updatedAt: departures.realtimeDataUpdatedAt,
+    }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'public, max-age=30', // 30s cache for realtime
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, { locale, provider: 'db', log: 'Disruptions error' });
+  }
+};
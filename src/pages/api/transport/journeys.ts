@@ -6,122 +6,90 @@
  * - from: origin station ID or name (required)
  * - to: destination station ID or name (required)
  * - when: departure time ISO string (optional, default now)
+ * - arrival: arrive-by time ISO string, instead of when (optional)
+ * - via: via station ID or name, repeat for several stations (optional, max 3)
+ * - transferTime: minimum transfer time in minutes (optional)
  * - results: max results (default 5)
  * - transfers: max transfers (optional)
+ * - products: comma-separated products to include, e.g. "regional,suburban" (optional)
+ * - exclude: comma-separated products to exclude, e.g. "bus" (optional)
+ * - deutschlandticket: "true" for journeys without ICE/IC/EC (optional)
+ * - earlierThan: earlierRef of a previous response, for earlier journeys (optional)
+ * - laterThan: laterRef of a previous response, for later journeys (optional)
+ * - sort: "reliability" to put the safest connections first (optional)
+ * - minReliability: drop journeys with a lower reliability score 0-100 (optional)
  */
 
 import type { APIRoute } from 'astro';
-import { 
-  findJourneys, 
-  searchLocations,
-  getJourneyDuration,
-  formatDuration,
-  getTransferCount,
-  formatDelay 
-} from '../../../lib/db-transport';
+import { findJourneysVia } from '../../../lib/db-transport';
+import { normalizeJourney, toProductFilter } from '../../../lib/transport-format';
+import { resolveStation } from '../../../lib/locations';
+import { errorResponse, invalidParameter, getLocale } from '../../../lib/api-errors';
+import { parseQuery, journeysQuery } from '../../../lib/api-schemas';
 
 export const prerender = false;
 
-export const GET: APIRoute = async ({ url }) => {
-  const from = url.searchParams.get('from');
-  const to = url.searchParams.get('to');
-  const when = url.searchParams.get('when');
-  const results = parseInt(url.searchParams.get('results') || '5');
-  const transfers = url.searchParams.get('transfers');
-  
-  if (!from || !to) {
-    return new Response(
-      JSON.stringify({ error: 'Parameters "from" and "to" are required' }),
-      { status: 400, headers: { 'Content-Type': 'application/json' } }
-    );
-  }
+export const GET: APIRoute = async ({ url, request }) => {
+  const locale = getLocale(request);
   
   try {
-    // If from/to are not IDs (8 digits), search for them first
-    let fromId = from;
-    let toId = to;
+    const query = parseQuery(journeysQuery, url.searchParams);
+    const {
+      from, to, when, arrival, via, transferTime,
+      results, transfers, earlierThan, laterThan, sort, minReliability,
+    } = query;
+    const products = toProductFilter(query);
     
-    if (!/^\d{7,8}$/.test(from)) {
-      const fromStops = await searchLocations(from, { results: 1 });
-      if (fromStops.length === 0) {
-        return new Response(
-          JSON.stringify({ error: `Station not found: ${from}` }),
-          { status: 404, headers: { 'Content-Type': 'application/json' } }
-        );
-      }
-      fromId = fromStops[0].id;
+    if (earlierThan && laterThan) {
+      throw invalidParameter('laterThan', 'Parameters "earlierThan" and "laterThan" cannot be combined');
     }
     
-    if (!/^\d{7,8}$/.test(to)) {
-      const toStops = await searchLocations(to, { results: 1 });
-      if (toStops.length === 0) {
-        return new Response(
-          JSON.stringify({ error: `Station not found: ${to}` }),
-          { status: 404, headers: { 'Content-Type': 'application/json' } }
-        );
-      }
-      toId = toStops[0].id;
+    if (when && arrival) {
+      throw invalidParameter('arrival', 'Parameters "when" and "arrival" cannot be combined');
     }
     
-    const journeysResponse = await findJourneys(fromId, toId, {
-      departure: when || undefined,
-      results: Math.min(results, 10),
-      transfers: transfers ? parseInt(transfers) : undefined,
+    // Chained via searches have no paging refs
+    if (via.length > 1 && (earlierThan || laterThan)) {
+      throw invalidParameter('via', 'Paging is only supported with at most one via station');
+    }
+    
+    const [fromStop, toStop, ...viaStops] = await Promise.all([
+      resolveStation(from),
+      resolveStation(to),
+      ...via.map(resolveStation),
+    ]);
+    
+    const stops = [fromStop, ...viaStops, toStop].map(stop => stop.id);
+    const journeysResponse = await findJourneysVia(stops, {
+      departure: arrival ? undefined : when,
+      arrival,
+      transferTime,
+      results,
+      transfers,
       stopovers: true,
+      earlierThan,
+      laterThan,
+      ...products,
     });
     
-    // Transform for frontend
-    const journeys = journeysResponse.journeys.map(journey => {
-      const firstLeg = journey.legs[0];
-      const lastLeg = journey.legs[journey.legs.length - 1];
-      const transportLegs = journey.legs.filter(leg => !leg.walking && leg.line);
-      
-      return {
-        departure: firstLeg.departure,
-        plannedDeparture: firstLeg.plannedDeparture,
-        departureDelay: formatDelay(firstLeg.departureDelay),
-        arrival: lastLeg.arrival,
-        plannedArrival: lastLeg.plannedArrival,
-        arrivalDelay: formatDelay(lastLeg.arrivalDelay),
-        duration: formatDuration(getJourneyDuration(journey)),
-        durationMinutes: getJourneyDuration(journey),
-        transfers: getTransferCount(journey),
-        price: journey.price,
-        origin: {
-          id: firstLeg.origin.id,
-          name: firstLeg.origin.name,
-          platform: firstLeg.departurePlatform,
-        },
-        destination: {
-          id: lastLeg.destination.id,
-          name: lastLeg.destination.name,
-          platform: lastLeg.arrivalPlatform,
-        },
-        products: transportLegs.map(leg => ({
-          line: leg.line?.name,
-          product: leg.line?.product,
-          direction: leg.direction,
-        })),
-        legs: journey.legs.map(leg => ({
-          origin: leg.origin.name,
-          destination: leg.destination.name,
-          departure: leg.departure,
-          arrival: leg.arrival,
-          line: leg.line?.name,
-          product: leg.line?.product,
-          direction: leg.direction,
-          walking: leg.walking,
-          distance: leg.distance,
-          departurePlatform: leg.departurePlatform,
-          arrivalPlatform: leg.arrivalPlatform,
-          departureDelay: formatDelay(leg.departureDelay),
-          arrivalDelay: formatDelay(leg.arrivalDelay),
-        })),
-        refreshToken: journey.refreshToken,
-      };
-    });
+    let journeys = journeysResponse.journeys
+      .map(normalizeJourney)
+      .filter(journey => journey.reliability >= minReliability);
+    
+    if (sort === 'reliability') {
+      journeys = journeys.sort((a, b) => b.reliability - a.reliability);
+    }
     
     return new Response(JSON.stringify({
+      query: {
+        from: fromStop,
+        to: toStop,
+        via: viaStops,
+        departure: arrival ? null : when ?? null,
+        arrival: arrival ?? null,
+        transferTime: transferTime ?? null,
+        products: products ?? null,
+      },
       journeys,
       earlierRef: journeysResponse.earlierRef,
       laterRef: journeysResponse.laterRef,
@@ -133,10 +101,6 @@ export const GET: APIRoute = async ({ url }) => {
       },
     });
   } catch (error) {
-    console.error('Journey search error:', error);
-    return new Response(
-      JSON.stringify({ error: 'Failed to find journeys' }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
-    );
+    return errorResponse(error, { locale, provider: 'db', log: 'Journey search error' });
   }
 };
@@ -0,0 +1,50 @@
+/**
+ * GET /api/transport/journeys/refresh
+ * Re-check a saved journey with current delays, platforms and cancellations
+ * 
+ * Query params:
+ * - token: refreshToken from /api/transport/journeys (required)
+ * - since: snapshot from the previous refresh (optional)
+ * 
+ * Each response carries a snapshot of the current state. Passing it back as
+ * `since` reports what changed since that refresh; without it, changes are
+ * reported against the timetable. The state stays with the client, so
+ * nothing is shared between clients or lost between isolates.
+ */
+
+import type { APIRoute } from 'astro';
+import { refreshJourney } from '../../../../lib/db-transport';
+import { normalizeJourney } from '../../../../lib/transport-format';
+import { diffJourneys, encodeSnapshot, snapshotJourney } from '../../../../lib/journey-diff';
+import { errorResponse, getLocale } from '../../../../lib/api-errors';
+import { parseQuery, journeyRefreshQuery } from '../../../../lib/api-schemas';
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ url, request }) => {
+  const locale = getLocale(request);
+  
+  try {
+    const { token, since } = parseQuery(journeyRefreshQuery, url.searchParams);
+    
+    const response = await refreshJourney(token, { stopovers: true });
+    
+    return new Response(JSON.stringify({
+      journey: normalizeJourney({
+        ...response.journey,
+        refreshToken: response.journey.refreshToken ?? token,
+      }),
+      diff: diffJourneys(since, response.journey),
+      snapshot: encodeSnapshot(snapshotJourney(response.journey)),
+      updatedAt: response.realtimeDataUpdatedAt,
+    }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store', // realtime state
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, { locale, provider: 'db', log: 'Journey refresh error' });
+  }
+};
@@ -9,23 +9,19 @@
 
 import type { APIRoute } from 'astro';
 import { searchLocations } from '../../../lib/db-transport';
+import { errorResponse, getLocale } from '../../../lib/api-errors';
+import { parseQuery, stationSearchQuery } from '../../../lib/api-schemas';
 
 export const prerender = false;
 
-export const GET: APIRoute = async ({ url }) => {
-  const query = url.searchParams.get('q');
-  const limit = parseInt(url.searchParams.get('limit') || '10');
-  
-  if (!query || query.length < 2) {
-    return new Response(
-      JSON.stringify({ error: 'Query parameter "q" is required (min 2 characters)' }),
-      { status: 400, headers: { 'Content-Type': 'application/json' } }
-    );
-  }
+export const GET: APIRoute = async ({ url, request }) => {
+  const locale = getLocale(request);
   
   try {
+    const { q: query, limit } = parseQuery(stationSearchQuery, url.searchParams);
+    
     const stops = await searchLocations(query, {
-      results: Math.min(limit, 20),
+      results: limit,
       stops: true,
       addresses: false,
       poi: false,
@@ -48,10 +44,6 @@ export const GET: APIRoute = async ({ url }) => {
       },
     });
   } catch (error) {
-    console.error('Station search error:', error);
-    return new Response(
-      JSON.stringify({ error: 'Failed to search stations' }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
-    );
+    return errorResponse(error, { locale, provider: 'db', log: 'Station search error' });
   }
 };
@@ -0,0 +1,41 @@
+/**
+ * GET /api/transport/trips/:id
+ * Follow a single train: all stopovers with planned and realtime times and
+ * platforms, which stops it has passed, and where it is right now
+ * 
+ * Path params:
+ * - id: tripId from a departure, arrival or journey leg (URL-encoded)
+ * 
+ * Trip IDs expire once the trip has ended; unknown IDs return 404.
+ */
+
+import type { APIRoute } from 'astro';
+import { getTrip } from '../../../../lib/db-transport';
+import { normalizeTrip } from '../../../../lib/transport-format';
+import { errorResponse, getLocale } from '../../../../lib/api-errors';
+import { parseParams, tripParams } from '../../../../lib/api-schemas';
+
+export const prerender = false;
+
+export const GET: APIRoute = async ({ params, request }) => {
+  const locale = getLocale(request);
+  
+  try {
+    const { id } = parseParams(tripParams, params);
+    
+    const response = await getTrip(id);
+    
+    return new Response(JSON.stringify({
+      trip: normalizeTrip(response.trip),
+      updatedAt: response.realtimeDataUpdatedAt,
+    }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'public, max-age=30', // 30s cache for realtime
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, { locale, provider: 'db', log: 'Trip error' });
+  }
+};
@@ -0,0 +1,131 @@
+/**
+ * Live Data Helpers
+ * Shared by the client scripts of the pages, which load their live data
+ * (journeys, trips) from the public API.
+ */
+
+// ============ Types ============
+
+// Mirrors the normalized journey of /api/transport/journeys
+export interface JourneyItem {
+  departure: string;
+  arrival: string;
+  departureDelay: string;
+  duration: string;
+  transfers: number;
+  price: { amount: number; currency: string } | null;
+  products: Array<{ line?: string }>;
+}
+
+// Mirrors the normalized trip of /api/transport/trips/:id
+export interface TripItem {
+  line?: string;
+  direction?: string;
+  position: { status: string; previousStop?: string; nextStop?: string };
+  remarks: Array<{ severity: string; summary: string }>;
+  stopovers: Array<{
+    name: string;
+    arrival: string | null;
+    plannedArrival: string | null;
+    departure: string | null;
+    plannedDeparture: string | null;
+    platform: string | null;
+    cancelled: boolean;
+    passed: boolean;
+  }>;
+}
+
+// ============ Helpers ============
+
+export const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit', timeZone: 'Europe/Berlin' });
+
+export const formatPrice = (amount: number) => `${amount.toFixed(2).replace('.', ',')} €`;
+
+export function escapeHtml(text: string): string {
+  const div = document.createElement('div');
+  div.textContent = text;
+  return div.innerHTML;
+}
+
+function describePosition(trip: TripItem): string {
+  const { status, previousStop, nextStop } = trip.position;
+  switch (status) {
+    case 'not_started': return `Noch nicht abgefahren, Start in ${nextStop}`;
+    case 'at_stop': return `Hält in ${previousStop}`;
+    case 'between_stops': return previousStop && nextStop ? `Zwischen ${previousStop} und ${nextStop}` : 'Unterwegs';
+    case 'finished': return `Angekommen in ${previousStop}`;
+    default: return 'Fällt aus';
+  }
+}
+
+// ============ Renderers ============
+
+/**
+ * Load journeys into a list, one item per journey
+ * `empty` is shown if the search finds none.
+ */
+export async function loadJourneys(list: HTMLElement, params: URLSearchParams, empty: string) {
+  const response = await fetch(`/api/transport/journeys?${params}`);
+  const data = await response.json();
+  if (!response.ok) {
+    list.innerHTML = `<li class="live-status">${escapeHtml(data.error || 'Verbindungen nicht verfügbar')}</li>`;
+    return;
+  }
+
+  const journeys = data.journeys as JourneyItem[];
+  list.innerHTML = journeys.length === 0
+    ? `<li class="live-status">${empty}</li>`
+    : journeys.map(j => `
+      <li>
+        <strong>${formatTime(j.departure)} – ${formatTime(j.arrival)}</strong>
+        <span class="journey-delay">${escapeHtml(j.departureDelay)}</span>
+        <span>${escapeHtml(j.duration)} · ${j.transfers} Umstieg${j.transfers === 1 ? '' : 'e'} ·
+          ${escapeHtml(j.products.map(p => p.line).filter(Boolean).join(', '))}</span>
+        <span class="live-price">${j.price ? formatPrice(j.price.amount) : ''}</span>
+      </li>
+    `).join('');
+}
+
+/**
+ * Show stopovers and position of a train in a panel
+ * Showing the same trip again hides the panel.
+ */
+export async function toggleTrip(panel: HTMLElement, tripId: string) {
+  if (!panel.hidden && panel.dataset.tripId === tripId) {
+    panel.hidden = true;
+    return;
+  }
+
+  panel.dataset.tripId = tripId;
+  panel.hidden = false;
+  panel.textContent = 'Lade Fahrtverlauf...';
+  const response = await fetch(`/api/transport/trips/${encodeURIComponent(tripId)}`);
+  const data = await response.json();
+
+  if (!response.ok) {
+    panel.textContent = data.error || 'Fahrt nicht gefunden';
+    return;
+  }
+
+  const trip = data.trip as TripItem;
+  const remaining = trip.stopovers.filter(s => !s.passed && !s.cancelled).length;
+  // Hints like bicycle carriage are left out, only disruptions are shown
+  const warnings = trip.remarks.filter(r => r.severity !== 'info');
+  panel.innerHTML = `
+    <p class="trip-position">
+      ${escapeHtml(`${trip.line ?? ''} → ${trip.direction ?? ''}: ${describePosition(trip)}`)}
+      ${trip.position.status === 'finished' ? '' : `· noch ${remaining} Halt${remaining === 1 ? '' : 'e'}`}
+    </p>
+    ${warnings.map(r => `<p class="trip-warning ${r.severity}">${escapeHtml(r.summary)}</p>`).join('')}
+    <ol class="trip-stops">
+      ${trip.stopovers.map(s => `
+        <li class="${s.passed ? 'passed' : ''} ${s.cancelled ? 'cancelled' : ''}">
+          <span class="stop-time">${formatTime((s.arrival ?? s.plannedArrival ?? s.departure ?? s.plannedDeparture)!)}</span>
+          ${escapeHtml(s.name)}
+          ${s.platform ? `<span class="stop-platform">Gl. ${escapeHtml(s.platform)}</span>` : ''}
+        </li>
+      `).join('')}
+    </ol>
+  `;
+}